@@ -0,0 +1,98 @@
+/**
+ * Attachment file data
+ * Images and PDFs attached in the side panel are kept in IndexedDB by attachment id rather
+ * than inside the stored conversation, so listing or saving conversations never reads them.
+ * chrome_upload_file reads them back from the background.
+ */
+
+import type { ChatAttachment } from '../types/grok';
+
+const ATTACHMENT_DB_NAME = 'ChatAttachments';
+const ATTACHMENT_DB_VERSION = 1;
+const ATTACHMENT_STORE_NAME = 'data';
+
+// Ids written by this page, so saving a conversation again does not rewrite its files
+const storedIds = new Set<string>();
+
+function openAttachmentDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(ATTACHMENT_DB_NAME, ATTACHMENT_DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(ATTACHMENT_STORE_NAME)) {
+        request.result.createObjectStore(ATTACHMENT_STORE_NAME);
+      }
+    };
+  });
+}
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openAttachmentDatabase();
+  try {
+    return await idbRequest(
+      run(db.transaction([ATTACHMENT_STORE_NAME], mode).objectStore(ATTACHMENT_STORE_NAME)),
+    );
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Store the data URLs of the attachments and return them without it, ready to be saved
+ * with the conversation
+ */
+export async function storeAttachmentData(
+  attachments: ChatAttachment[],
+): Promise<ChatAttachment[]> {
+  const stripped: ChatAttachment[] = [];
+  for (const { dataUrl, ...attachment } of attachments) {
+    if (dataUrl && !storedIds.has(attachment.id)) {
+      await withStore('readwrite', (store) => store.put(dataUrl, attachment.id));
+      storedIds.add(attachment.id);
+    }
+    stripped.push(attachment);
+  }
+  return stripped;
+}
+
+export async function loadAttachmentData(id: string): Promise<string | undefined> {
+  return withStore<string | undefined>('readonly', (store) => store.get(id));
+}
+
+/**
+ * Attachments of a stored conversation with their data URLs restored
+ */
+export async function restoreAttachmentData(
+  attachments: ChatAttachment[],
+): Promise<ChatAttachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment) => {
+      if (attachment.dataUrl) return attachment;
+      const dataUrl = await loadAttachmentData(attachment.id);
+      return dataUrl ? { ...attachment, dataUrl } : attachment;
+    }),
+  );
+}
+
+export async function deleteAttachmentData(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    await withStore('readwrite', (store) => store.delete(id));
+    storedIds.delete(id);
+  }
+}
+
+export async function clearAttachmentData(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+  storedIds.clear();
+}
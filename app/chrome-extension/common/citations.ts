@@ -0,0 +1,61 @@
+/**
+ * Source attribution for answers built from page content
+ * Content tools tag their results with a sourceId; the model cites it inline as
+ * [src:<sourceId>] and the side panel turns each marker into a chip
+ */
+
+export interface CitationSource {
+  id: string;
+  url: string;
+  title?: string;
+  // Open tab the content came from; history results only have a URL
+  tabId?: number;
+  // Passage to highlight when the source is opened
+  passage?: string;
+}
+
+export const CITATION_PATTERN = /\[src:([\w-]+)\]/g;
+
+export const CITATION_INSTRUCTIONS =
+  'Tool results from page content, tab search and history carry a sourceId. When your answer uses information from such a result, cite it right after the claim as [src:<sourceId>], e.g. [src:tab-12-c3]. Only cite sourceIds that appear in tool results.';
+
+// tab-<tabId> for a whole page, tab-<tabId>-c<chunkIndex> for an indexed chunk of it
+export function tabSourceId(tabId: number, chunkIndex?: number): string {
+  return chunkIndex === undefined ? `tab-${tabId}` : `tab-${tabId}-c${chunkIndex}`;
+}
+
+export function historySourceId(historyId: string): string {
+  return `hist-${historyId}`;
+}
+
+/**
+ * Collect every object carrying a sourceId and url from a parsed tool result
+ */
+export function collectSources(value: any, into: Map<string, CitationSource>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectSources(item, into));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  if (typeof value.sourceId === 'string' && typeof value.url === 'string') {
+    into.set(value.sourceId, {
+      id: value.sourceId,
+      url: value.url,
+      title: typeof value.title === 'string' ? value.title : undefined,
+      tabId: typeof value.tabId === 'number' ? value.tabId : undefined,
+      // Tab search results carry the matched chunk as their first snippet
+      passage: (value.passage ?? value.matchedSnippets?.[0])?.replace(/\.\.\.$/, ''),
+    });
+  }
+  Object.values(value).forEach((child) => collectSources(child, into));
+}
+
+// Source ids in the order the text first cites them
+export function citedSourceIds(text: string): string[] {
+  const ids: string[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (!ids.includes(match[1])) ids.push(match[1]);
+  }
+  return ids;
+}
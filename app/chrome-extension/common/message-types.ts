@@ -19,6 +19,20 @@ export const BACKGROUND_MESSAGE_TYPES = {
   CLEAR_ALL_DATA: 'clear_all_data',
   INITIALIZE_SEMANTIC_ENGINE: 'initialize_semantic_engine',
   EXECUTE_TOOL: 'execute_tool',
+  CANCEL_TOOL_EXECUTION: 'cancel_tool_execution',
+  SECURITY_LOG_EVENT: 'security_log_event',
+  SECURITY_GET_EVENTS: 'security_get_events',
+  SECURITY_RESOLVE_EVENT: 'security_resolve_event',
+  SECURITY_CLEAR_EVENTS: 'security_clear_events',
+  SECURITY_EXPORT_REPORT: 'security_export_report',
+  FOCUS_CITATION_SOURCE: 'focus_citation_source',
+  EXTRACT_PDF_TEXT: 'extract_pdf_text',
+  EDIT_TODOS: 'edit_todos',
+} as const;
+
+// Side panel message types (sent from background to the side panel)
+export const SIDEPANEL_MESSAGE_TYPES = {
+  TOOL_APPROVAL_REQUEST: 'tool_approval_request',
 } as const;
 
 // Offscreen message types
@@ -27,6 +41,7 @@ export const OFFSCREEN_MESSAGE_TYPES = {
   SIMILARITY_ENGINE_COMPUTE: 'similarityEngineCompute',
   SIMILARITY_ENGINE_BATCH_COMPUTE: 'similarityEngineBatchCompute',
   SIMILARITY_ENGINE_STATUS: 'similarityEngineStatus',
+  EXTRACT_PDF_TEXT: 'extractPdfText',
 } as const;
 
 // Content script message types
@@ -56,6 +71,10 @@ export const TOOL_MESSAGE_TYPES = {
 
   // User interactions
   CLICK_ELEMENT: 'clickElement',
+  MOUSE_CLICK: 'mouseClick',
+  HOVER_ELEMENT: 'hoverElement',
+  DRAG_ELEMENT: 'dragElement',
+  SCROLL_ELEMENT: 'scrollElement',
   FILL_ELEMENT: 'fillElement',
   SIMULATE_KEYBOARD: 'simulateKeyboard',
 
@@ -73,6 +92,8 @@ export const TOOL_MESSAGE_TYPES = {
 // Type unions for type safety
 export type BackgroundMessageType =
   (typeof BACKGROUND_MESSAGE_TYPES)[keyof typeof BACKGROUND_MESSAGE_TYPES];
+export type SidepanelMessageType =
+  (typeof SIDEPANEL_MESSAGE_TYPES)[keyof typeof SIDEPANEL_MESSAGE_TYPES];
 export type OffscreenMessageType =
   (typeof OFFSCREEN_MESSAGE_TYPES)[keyof typeof OFFSCREEN_MESSAGE_TYPES];
 export type ContentMessageType = (typeof CONTENT_MESSAGE_TYPES)[keyof typeof CONTENT_MESSAGE_TYPES];
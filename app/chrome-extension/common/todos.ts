@@ -0,0 +1,140 @@
+/**
+ * Conversation-scoped TODO lists
+ * The todo_* tools and the side panel share this store; each conversation keeps its list
+ * in chrome.storage.local so it survives service worker restarts and archived chats
+ */
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface TodoItem {
+  id: string;
+  title: string;
+  status: TodoStatus;
+  priority: TodoPriority;
+  created_at: string;
+  updated_at: string;
+  depends_on?: string[];
+  notes?: string;
+}
+
+// Calls that do not belong to a side panel conversation (e.g. MCP clients) share this list
+export const DEFAULT_TODO_SCOPE = 'default';
+
+const TODO_STORAGE_PREFIX = 'todos_';
+
+export function todoStorageKey(conversationId?: string): string {
+  return `${TODO_STORAGE_PREFIX}${conversationId || DEFAULT_TODO_SCOPE}`;
+}
+
+// Stored in list order; the side panel can reorder it by hand
+export async function getTodos(conversationId?: string): Promise<TodoItem[]> {
+  const key = todoStorageKey(conversationId);
+  const stored = await chrome.storage.local.get(key);
+  return stored[key] || [];
+}
+
+export async function saveTodos(conversationId: string | undefined, todos: TodoItem[]) {
+  const key = todoStorageKey(conversationId);
+  if (todos.length === 0) {
+    await chrome.storage.local.remove(key);
+  } else {
+    await chrome.storage.local.set({ [key]: todos });
+  }
+}
+
+/**
+ * Dependencies of a task that are not completed yet; a task with any cannot start
+ */
+export function blockingDependencies(todo: TodoItem, todos: TodoItem[]): TodoItem[] {
+  return (todo.depends_on || [])
+    .map((id) => todos.find((t) => t.id === id))
+    .filter((dep): dep is TodoItem => !!dep && dep.status !== 'completed');
+}
+
+/**
+ * True when making `todoId` depend on `dependsOn` would create a cycle
+ */
+export function createsDependencyCycle(
+  todoId: string,
+  dependsOn: string[],
+  todos: TodoItem[],
+): boolean {
+  const seen = new Set<string>();
+  const stack = [...dependsOn];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === todoId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(todos.find((t) => t.id === id)?.depends_on || []));
+  }
+  return false;
+}
+
+/**
+ * Tasks that depend on `todo` but are already started or done; reopening `todo` leaves them
+ * ahead of their dependency
+ */
+export function startedDependents(todo: TodoItem, todos: TodoItem[]): TodoItem[] {
+  return todos.filter(
+    (t) =>
+      t.depends_on?.includes(todo.id) && (t.status === 'in_progress' || t.status === 'completed'),
+  );
+}
+
+// Edits the user makes by hand in the side panel
+export type TodoEdit =
+  | {
+      type: 'update';
+      id: string;
+      changes: Partial<Pick<TodoItem, 'title' | 'status' | 'priority'>>;
+    }
+  | { type: 'move'; id: string; offset: number }
+  | { type: 'remove'; id: string }
+  | { type: 'clear_completed' };
+
+/**
+ * Apply a side panel edit to the list in place; returns an error message when it cannot apply
+ */
+export function applyTodoEdit(todos: TodoItem[], edit: TodoEdit): string | undefined {
+  if (edit.type === 'clear_completed') {
+    const kept = todos.filter((todo) => todo.status !== 'completed');
+    todos.splice(0, todos.length, ...kept);
+    return undefined;
+  }
+
+  const index = todos.findIndex((todo) => todo.id === edit.id);
+  if (index === -1) return `TODO task with id "${edit.id}" not found`;
+  const todo = todos[index];
+
+  switch (edit.type) {
+    case 'update': {
+      const { status } = edit.changes;
+      if (status === 'in_progress' || status === 'completed') {
+        const blockers = blockingDependencies(todo, todos);
+        if (blockers.length > 0) {
+          return `"${todo.title}" is blocked by ${blockers.map((dep) => `"${dep.title}"`).join(', ')}`;
+        }
+      }
+      Object.assign(todo, edit.changes, { updated_at: new Date().toISOString() });
+      return undefined;
+    }
+    case 'move': {
+      const target = index + edit.offset;
+      if (target < 0 || target >= todos.length) return undefined;
+      todos.splice(index, 1);
+      todos.splice(target, 0, todo);
+      return undefined;
+    }
+    case 'remove':
+      // Removing a task also drops it from the dependencies of the others
+      todos.splice(index, 1);
+      for (const other of todos) {
+        if (other.depends_on?.includes(edit.id)) {
+          other.depends_on = other.depends_on.filter((dep) => dep !== edit.id);
+        }
+      }
+      return undefined;
+  }
+}
@@ -5,8 +5,18 @@ export interface ToolResult extends CallToolResult {
   isError: boolean;
 }
 
+// Who a call is made for; tools with per-conversation state use it
+export interface ToolContext {
+  conversationId?: string;
+  runId?: string;
+}
+
 export interface ToolExecutor {
-  execute(args: any): Promise<ToolResult>;
+  execute(args: any, context?: ToolContext): Promise<ToolResult>;
+  /**
+   * Stop any long-running work started by execute (captures, waits, stitching)
+   */
+  cancel?(runId: string): Promise<void>;
 }
 
 export const createErrorResponse = (
@@ -0,0 +1,28 @@
+import {
+  BACKGROUND_MESSAGE_TYPES,
+  MessageTarget,
+  OFFSCREEN_MESSAGE_TYPES,
+} from '@/common/message-types';
+import { OffscreenManager } from '@/utils/offscreen-manager';
+
+/**
+ * Extract text from PDFs attached in the side panel; the parsing runs in the offscreen
+ * document so large files do not block the service worker
+ */
+export const initAttachmentListener = () => {
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message?.type !== BACKGROUND_MESSAGE_TYPES.EXTRACT_PDF_TEXT) return;
+    OffscreenManager.getInstance()
+      .ensureOffscreenDocument()
+      .then(() =>
+        chrome.runtime.sendMessage({
+          target: MessageTarget.Offscreen,
+          type: OFFSCREEN_MESSAGE_TYPES.EXTRACT_PDF_TEXT,
+          data: message.data,
+        }),
+      )
+      .then((response) => sendResponse(response))
+      .catch((error: any) => sendResponse({ success: false, error: error.message }));
+    return true;
+  });
+};
@@ -0,0 +1,110 @@
+import { BACKGROUND_MESSAGE_TYPES } from '@/common/message-types';
+import type { CitationSource } from '@/common/citations';
+
+const TAB_LOAD_TIMEOUT_MS = 10000;
+// How long a cited passage stays highlighted
+const HIGHLIGHT_DURATION_MS = 6000;
+
+function sameUrl(a?: string, b?: string): boolean {
+  const normalize = (url?: string) => url?.split('#')[0].replace(/\/$/, '');
+  return !!a && normalize(a) === normalize(b);
+}
+
+function waitForTabLoad(tabId: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+    const listener = (updatedId: number, info: chrome.tabs.TabChangeInfo) => {
+      if (updatedId === tabId && info.status === 'complete') done();
+    };
+    const timer = setTimeout(done, TAB_LOAD_TIMEOUT_MS);
+    chrome.tabs.onUpdated.addListener(listener);
+    chrome.tabs.get(tabId).then((tab) => tab.status === 'complete' && done(), done);
+  });
+}
+
+/**
+ * Runs in the page: find the passage, scroll to it and highlight it briefly.
+ * Chunk text is normalized, so shorter probes are tried when the full start does not match.
+ */
+function highlightPassage(passage: string, durationMs: number): boolean {
+  const text = passage.replace(/\s+/g, ' ').trim();
+  const firstSentence = text.split(/(?<=[.!?])\s/)[0];
+  const probes = [text.slice(0, 120), firstSentence.slice(0, 120), text.slice(0, 40)].filter(
+    (probe, index, all) => probe.length > 0 && all.indexOf(probe) === index,
+  );
+
+  const selection = window.getSelection();
+  for (const probe of probes) {
+    selection?.removeAllRanges();
+    // window.find(text, caseSensitive, backwards, wrapAround, ...) selects the first match
+    if (!(window as any).find(probe, false, false, true, false, false, false)) continue;
+    const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
+    if (!range) continue;
+
+    range.startContainer.parentElement?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const highlights = (CSS as any).highlights;
+    if (highlights && typeof (window as any).Highlight === 'function') {
+      if (!document.getElementById('grok-citation-style')) {
+        const style = document.createElement('style');
+        style.id = 'grok-citation-style';
+        style.textContent = '::highlight(grok-citation) { background: #fde047; color: #111; }';
+        document.head.appendChild(style);
+      }
+      highlights.set('grok-citation', new (window as any).Highlight(range.cloneRange()));
+      selection?.removeAllRanges();
+      setTimeout(() => highlights.delete('grok-citation'), durationMs);
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Bring a cited source to the front: its tab if still open, otherwise an existing or new
+ * tab with its URL; then highlight the cited passage
+ */
+async function focusSource(source: CitationSource): Promise<{ highlighted: boolean }> {
+  let tab: chrome.tabs.Tab | undefined;
+  if (source.tabId !== undefined) {
+    tab = await chrome.tabs.get(source.tabId).catch(() => undefined);
+    // The tab may have navigated away since the answer was written
+    if (tab && !sameUrl(tab.url, source.url)) tab = undefined;
+  }
+  if (!tab) {
+    const tabs = await chrome.tabs.query({});
+    tab = tabs.find((t) => sameUrl(t.url, source.url));
+  }
+  if (!tab) {
+    tab = await chrome.tabs.create({ url: source.url, active: true });
+  }
+  if (!tab.id) throw new Error('Source tab has no ID');
+
+  await chrome.tabs.update(tab.id, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
+  if (!source.passage) return { highlighted: false };
+
+  await waitForTabLoad(tab.id);
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: highlightPassage,
+    args: [source.passage, HIGHLIGHT_DURATION_MS],
+  });
+  return { highlighted: !!injection?.result };
+}
+
+/**
+ * Handle citation chip clicks from the side panel
+ */
+export const initCitationListener = () => {
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message?.type !== BACKGROUND_MESSAGE_TYPES.FOCUS_CITATION_SOURCE) return;
+    focusSource(message.source)
+      .then((result) => sendResponse({ success: true, ...result }))
+      .catch((error: any) => sendResponse({ success: false, error: error.message }));
+    return true;
+  });
+};
@@ -1,10 +1,14 @@
 import { BACKGROUND_MESSAGE_TYPES } from '@/common/message-types';
-import { handleCallTool } from './tools';
+import { handleCallTool, handleCancelTools } from './tools';
 import {
   initSemanticSimilarityListener,
   initializeSemanticEngineIfCached,
 } from './semantic-similarity';
 import { initStorageManagerListener } from './storage-manager';
+import { initSecurityMonitorListener } from './security';
+import { initCitationListener } from './citations';
+import { initAttachmentListener } from './attachments';
+import { initTodoListener } from './todos';
 import { cleanupModelCache } from '@/utils/semantic-similarity-engine';
 
 /**
@@ -15,6 +19,10 @@ export default defineBackground(() => {
   // Initialize core services
   initSemanticSimilarityListener();
   initStorageManagerListener();
+  initSecurityMonitorListener();
+  initCitationListener();
+  initAttachmentListener();
+  initTodoListener();
 
   // Initialize sidepanel
   chrome.runtime.onInstalled.addListener(() => {
@@ -54,7 +62,7 @@ export default defineBackground(() => {
         const mapped = result?.[mappingKey];
         if (mapped && mapped.toolName) {
           // Execute the mapped tool via existing handleCallTool helper
-          handleCallTool({ name: mapped.toolName, args: mapped.args || {} });
+          handleCallTool({ name: mapped.toolName, args: mapped.args || {}, userInitiated: true });
         } else {
           console.log(`No tool mapped for ${command}`);
         }
@@ -87,10 +95,22 @@ export default defineBackground(() => {
   // Proxy: allow sidepanel/popup to execute tools via background
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     if (message?.type === BACKGROUND_MESSAGE_TYPES.EXECUTE_TOOL) {
-      handleCallTool({ name: message.name, args: message.args })
+      handleCallTool({
+        name: message.name,
+        args: message.args,
+        conversationId: message.conversationId,
+        runId: message.runId,
+      })
         .then((result) => sendResponse({ success: true, result }))
         .catch((error) => sendResponse({ success: false, error: error?.message || String(error) }));
       return true;
     }
+
+    if (message?.type === BACKGROUND_MESSAGE_TYPES.CANCEL_TOOL_EXECUTION) {
+      handleCancelTools(message.runId)
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => sendResponse({ success: false, error: error?.message || String(error) }));
+      return true;
+    }
   });
 });
@@ -0,0 +1,100 @@
+import { BACKGROUND_MESSAGE_TYPES } from '@/common/message-types';
+import { SecurityMonitor, SecurityVerdict } from '@/services/security-monitor';
+import { DEFAULT_TOOL_POLICIES } from '@/utils/tool-policy';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+
+/**
+ * Emit security events for a tool call before it runs.
+ * Arguments are summarised rather than stored, since they can hold form values or scripts.
+ */
+export async function checkToolSecurity(
+  toolName: string,
+  args: any,
+  targetUrl: string | undefined,
+): Promise<SecurityVerdict> {
+  const verdict = await SecurityMonitor.logEvent({
+    type: 'tool_usage',
+    // Sensitive tools are never rate-limited so their block patterns are always evaluated
+    severity: DEFAULT_TOOL_POLICIES[toolName] ? 'medium' : 'low',
+    source: toolName,
+    details: {
+      tool: toolName,
+      url: targetUrl,
+      argKeys: Object.keys(args || {}),
+    },
+  });
+  if (verdict.blocked) return verdict;
+
+  if (toolName === TOOL_NAMES.BROWSER.NETWORK_REQUEST && typeof args?.url === 'string') {
+    try {
+      const url = new URL(args.url);
+      const bodySize = typeof args.body === 'string' ? args.body.length : 0;
+      return await SecurityMonitor.logEvent({
+        type: 'network',
+        severity: 'medium',
+        source: toolName,
+        details: {
+          domain: url.hostname,
+          protocol: url.protocol.replace(':', ''),
+          method: args.method || 'GET',
+          upload_size_mb: bodySize / (1024 * 1024),
+        },
+      });
+    } catch {
+      // Invalid URLs fail in the tool itself
+    }
+  }
+
+  return verdict;
+}
+
+/**
+ * Record a tool call the user refused on an approval card
+ */
+export function logToolDenied(toolName: string, targetUrl: string | undefined, reason?: string) {
+  SecurityMonitor.logEvent({
+    type: 'permission',
+    severity: 'medium',
+    source: toolName,
+    details: { tool: toolName, url: targetUrl, decision: 'denied', reason },
+  });
+}
+
+/**
+ * Initialize security monitor and its message listeners
+ */
+export const initSecurityMonitorListener = () => {
+  SecurityMonitor.initialize().catch((error) => {
+    console.warn('Background: Failed to initialize security monitor:', error);
+  });
+
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    switch (message?.type) {
+      case BACKGROUND_MESSAGE_TYPES.SECURITY_LOG_EVENT:
+        SecurityMonitor.logEvent(message.event)
+          .then((verdict) => sendResponse({ success: true, verdict }))
+          .catch((error: any) => sendResponse({ success: false, error: error.message }));
+        return true;
+      case BACKGROUND_MESSAGE_TYPES.SECURITY_GET_EVENTS:
+        Promise.all([SecurityMonitor.getEvents(message.criteria), SecurityMonitor.getMetrics()])
+          .then(([events, metrics]) => sendResponse({ success: true, events, metrics }))
+          .catch((error: any) => sendResponse({ success: false, error: error.message }));
+        return true;
+      case BACKGROUND_MESSAGE_TYPES.SECURITY_RESOLVE_EVENT:
+        SecurityMonitor.resolveEvent(message.eventId)
+          .then((success) => sendResponse({ success }))
+          .catch((error: any) => sendResponse({ success: false, error: error.message }));
+        return true;
+      case BACKGROUND_MESSAGE_TYPES.SECURITY_CLEAR_EVENTS:
+        SecurityMonitor.clearEvents()
+          .then(() => sendResponse({ success: true }))
+          .catch((error: any) => sendResponse({ success: false, error: error.message }));
+        return true;
+      case BACKGROUND_MESSAGE_TYPES.SECURITY_EXPORT_REPORT:
+        SecurityMonitor.exportSecurityReport()
+          .then((report) => sendResponse({ success: true, report }))
+          .catch((error: any) => sendResponse({ success: false, error: error.message }));
+        return true;
+    }
+  });
+};
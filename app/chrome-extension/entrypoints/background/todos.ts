@@ -0,0 +1,16 @@
+import { BACKGROUND_MESSAGE_TYPES } from '@/common/message-types';
+import { editTodos } from './tools/todo';
+
+/**
+ * Apply the side panel's TODO edits here, so they queue behind the todo_* tools' writes
+ * instead of overwriting them
+ */
+export const initTodoListener = () => {
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message?.type !== BACKGROUND_MESSAGE_TYPES.EDIT_TODOS) return;
+    editTodos(message.conversationId, message.edit)
+      .then((error) => sendResponse(error ? { success: false, error } : { success: true }))
+      .catch((error: any) => sendResponse({ success: false, error: error.message }));
+    return true;
+  });
+};
@@ -0,0 +1,98 @@
+import { SIDEPANEL_MESSAGE_TYPES } from '@/common/message-types';
+import {
+  getToolPolicy,
+  setSiteToolPolicy,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from '@/utils/tool-policy';
+
+// Unanswered approval cards are treated as a denial
+const APPROVAL_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Work out which page a tool call acts on: an explicit url argument,
+ * a referenced tab, or the active tab
+ */
+export async function resolveToolTargetUrl(args: any): Promise<string | undefined> {
+  if (typeof args?.url === 'string') return args.url;
+
+  try {
+    const tabId =
+      typeof args?.tabId === 'number'
+        ? args.tabId
+        : Array.isArray(args?.tabIds) && typeof args.tabIds[0] === 'number'
+          ? args.tabIds[0]
+          : undefined;
+    const tab =
+      tabId !== undefined
+        ? await chrome.tabs.get(tabId)
+        : (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+    return tab?.url;
+  } catch {
+    return undefined;
+  }
+}
+
+function toOrigin(url?: string): string {
+  try {
+    return url ? new URL(url).origin : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Show an approval card in the side panel and wait for the user's answer.
+ * Resolves to 'deny' if no side panel is open or the user does not answer in time.
+ */
+async function requestApproval(request: ToolApprovalRequest): Promise<ToolApprovalDecision> {
+  try {
+    const response = await Promise.race([
+      chrome.runtime.sendMessage({
+        type: SIDEPANEL_MESSAGE_TYPES.TOOL_APPROVAL_REQUEST,
+        request,
+      }),
+      new Promise<undefined>((resolve) => setTimeout(resolve, APPROVAL_TIMEOUT_MS)),
+    ]);
+    return response?.decision || 'deny';
+  } catch (error) {
+    console.warn(`Tool approval for ${request.toolName} could not be requested:`, error);
+    return 'deny';
+  }
+}
+
+/**
+ * Apply the tool policy for a call. Calls made directly by the user (e.g. shortcut slots)
+ * skip the approval card but still honour deny policies.
+ */
+export async function checkToolApproval(
+  toolName: string,
+  args: any,
+  targetUrl: string | undefined,
+  userInitiated = false,
+): Promise<{ allowed: boolean; reason?: string }> {
+  const origin = toOrigin(targetUrl);
+  const policy = await getToolPolicy(toolName, origin);
+
+  if (policy === 'deny') {
+    return { allowed: false, reason: `Tool ${toolName} is blocked by policy on ${origin}` };
+  }
+  if (policy === 'allow' || userInitiated) {
+    return { allowed: true };
+  }
+
+  const decision = await requestApproval({
+    id: `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    toolName,
+    args,
+    origin,
+  });
+
+  if (decision === 'always' && origin !== 'unknown') {
+    await setSiteToolPolicy(origin, toolName, 'allow');
+  }
+  if (decision === 'deny') {
+    return { allowed: false, reason: `User denied ${toolName} on ${origin}` };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,236 @@
+/**
+ * Trusted input through the Chrome DevTools Protocol
+ * Events sent with Input.dispatchMouseEvent, Input.insertText and Input.dispatchKeyEvent reach
+ * the page with isTrusted = true, so they trigger CSS :hover, native drag and drop, default
+ * key actions and handlers that ignore synthetic events
+ */
+
+import type { InputMode } from '@/utils/trusted-input';
+
+const DEBUGGER_PROTOCOL_VERSION = '1.3';
+const DRAG_STEPS = 10;
+const STEP_DELAY_MS = 16;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type MouseButton = 'left' | 'right' | 'middle';
+
+// A parsed key combination, as returned by keyboard-helper.js
+export interface KeyPress {
+  key: string;
+  code: string;
+  keyCode: number;
+  modifiers: { ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean };
+}
+
+export type InputMethod = 'synthetic' | 'trusted';
+
+const BUTTON_MASKS: Record<MouseButton, number> = { left: 1, right: 2, middle: 4 };
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run commands with the debugger attached to a tab. A session this extension already holds
+ * (e.g. a running network capture) is reused and left attached.
+ */
+export async function withDebugger<T>(
+  tabId: number,
+  run: (send: (method: string, params?: object) => Promise<any>) => Promise<T>,
+): Promise<T> {
+  const targets = await chrome.debugger.getTargets();
+  const existing = targets.find((t) => t.tabId === tabId && t.attached && t.type === 'page');
+  if (existing && existing.extensionId !== chrome.runtime.id) {
+    throw new Error(
+      `Debugger is already attached to tab ${tabId} by another client (e.g., DevTools); trusted input is unavailable.`,
+    );
+  }
+
+  const ownsSession = !existing;
+  if (ownsSession) {
+    await chrome.debugger.attach({ tabId }, DEBUGGER_PROTOCOL_VERSION);
+  }
+  try {
+    return await run((method, params) => chrome.debugger.sendCommand({ tabId }, method, params));
+  } finally {
+    if (ownsSession) {
+      await chrome.debugger
+        .detach({ tabId })
+        .catch((error) => console.warn(`Error detaching debugger from tab ${tabId}:`, error));
+    }
+  }
+}
+
+function mouseEvent(
+  type: 'mousePressed' | 'mouseReleased' | 'mouseMoved' | 'mouseWheel',
+  point: Point,
+  extra: Record<string, unknown> = {},
+) {
+  return { type, x: Math.round(point.x), y: Math.round(point.y), ...extra };
+}
+
+export async function trustedClick(
+  tabId: number,
+  point: Point,
+  button: MouseButton = 'left',
+  clickCount = 1,
+): Promise<void> {
+  await withDebugger(tabId, async (send) => {
+    await send('Input.dispatchMouseEvent', mouseEvent('mouseMoved', point));
+    // A double click is two press/release pairs, the second with clickCount 2
+    for (let count = 1; count <= clickCount; count++) {
+      const pressed = { button, clickCount: count, buttons: BUTTON_MASKS[button] };
+      await send('Input.dispatchMouseEvent', mouseEvent('mousePressed', point, pressed));
+      await send(
+        'Input.dispatchMouseEvent',
+        mouseEvent('mouseReleased', point, { button, clickCount: count }),
+      );
+    }
+  });
+}
+
+export async function trustedHover(tabId: number, point: Point): Promise<void> {
+  await withDebugger(tabId, (send) =>
+    send('Input.dispatchMouseEvent', mouseEvent('mouseMoved', point)),
+  );
+}
+
+export async function trustedDrag(tabId: number, from: Point, to: Point): Promise<void> {
+  await withDebugger(tabId, async (send) => {
+    await send('Input.dispatchMouseEvent', mouseEvent('mouseMoved', from));
+    await send(
+      'Input.dispatchMouseEvent',
+      mouseEvent('mousePressed', from, { button: 'left', clickCount: 1, buttons: 1 }),
+    );
+    // Move in steps so drag libraries see a gesture rather than a jump
+    for (let step = 1; step <= DRAG_STEPS; step++) {
+      const point = {
+        x: from.x + ((to.x - from.x) * step) / DRAG_STEPS,
+        y: from.y + ((to.y - from.y) * step) / DRAG_STEPS,
+      };
+      await send(
+        'Input.dispatchMouseEvent',
+        mouseEvent('mouseMoved', point, { button: 'left', buttons: 1 }),
+      );
+      await delay(STEP_DELAY_MS);
+    }
+    await send(
+      'Input.dispatchMouseEvent',
+      mouseEvent('mouseReleased', to, { button: 'left', clickCount: 1 }),
+    );
+  });
+}
+
+export async function trustedScroll(
+  tabId: number,
+  point: Point,
+  deltaX: number,
+  deltaY: number,
+): Promise<void> {
+  await withDebugger(tabId, (send) =>
+    send('Input.dispatchMouseEvent', mouseEvent('mouseWheel', point, { deltaX, deltaY })),
+  );
+}
+
+export async function trustedInsertText(tabId: number, text: string): Promise<void> {
+  await withDebugger(tabId, async (send) => {
+    if (text) {
+      await send('Input.insertText', { text });
+    } else {
+      // Inserting nothing leaves the selection in place; delete it instead
+      await send('Input.dispatchKeyEvent', {
+        type: 'rawKeyDown',
+        key: 'Backspace',
+        code: 'Backspace',
+        windowsVirtualKeyCode: 8,
+      });
+      await send('Input.dispatchKeyEvent', {
+        type: 'keyUp',
+        key: 'Backspace',
+        code: 'Backspace',
+        windowsVirtualKeyCode: 8,
+      });
+    }
+  });
+}
+
+export async function trustedKeyPresses(
+  tabId: number,
+  presses: KeyPress[],
+  delayMs = 0,
+): Promise<void> {
+  await withDebugger(tabId, async (send) => {
+    for (const [index, press] of presses.entries()) {
+      const { key, code, keyCode, modifiers } = press;
+      // Bit field used by CDP: Alt=1, Ctrl=2, Meta=4, Shift=8
+      const modifierBits =
+        (modifiers.altKey ? 1 : 0) |
+        (modifiers.ctrlKey ? 2 : 0) |
+        (modifiers.metaKey ? 4 : 0) |
+        (modifiers.shiftKey ? 8 : 0);
+      const shortcut = modifiers.ctrlKey || modifiers.metaKey;
+      const text = shortcut
+        ? undefined
+        : key === 'Enter'
+          ? '\r'
+          : key.length === 1
+            ? key
+            : undefined;
+      const event = {
+        modifiers: modifierBits,
+        key,
+        code,
+        // Virtual key codes of letters are their upper case character codes
+        windowsVirtualKeyCode: key.length === 1 ? key.toUpperCase().charCodeAt(0) : keyCode,
+      };
+
+      await send('Input.dispatchKeyEvent', {
+        ...event,
+        type: text ? 'keyDown' : 'rawKeyDown',
+        text,
+        unmodifiedText: text,
+      });
+      await send('Input.dispatchKeyEvent', { ...event, type: 'keyUp' });
+      if (delayMs > 0 && index < presses.length - 1) await delay(delayMs);
+    }
+  });
+}
+
+const NO_EFFECT_HINT =
+  'The synthetic input caused no visible change. Check the page state; if the action did not take effect, retry with trusted: true';
+
+/**
+ * Send trusted input when the mode asks for it, or in auto mode when the synthetic events had
+ * no visible effect. The trusted mode fails loudly; an automatic fallback only notes why it
+ * could not run.
+ * Only repeatable input (hover, scroll, drag) falls back on its own: a click, fill or key press
+ * may have reached a handler without a visible change, so in auto mode it is not sent again and
+ * the result carries a hint instead.
+ */
+export async function applyTrustedInput(
+  mode: InputMode,
+  effect: boolean | undefined,
+  dispatch: () => Promise<void>,
+  repeatable = false,
+): Promise<{ inputMethod: InputMethod; trustedError?: string; hint?: string }> {
+  if (mode === 'auto' && !repeatable) {
+    return effect === false
+      ? { inputMethod: 'synthetic', hint: NO_EFFECT_HINT }
+      : { inputMethod: 'synthetic' };
+  }
+  if (mode === 'synthetic' || (mode === 'auto' && effect !== false)) {
+    return { inputMethod: 'synthetic' };
+  }
+  try {
+    await dispatch();
+    return { inputMethod: 'trusted' };
+  } catch (error) {
+    if (mode === 'trusted') throw error;
+    return {
+      inputMethod: 'synthetic',
+      trustedError: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
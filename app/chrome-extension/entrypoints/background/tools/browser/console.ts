@@ -1,6 +1,8 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { PAGE_LOAD_TIMEOUT_MS, waitForConditions } from './wait-for';
+import { RunAbortControllers } from './run-abort';
 
 const DEBUGGER_PROTOCOL_VERSION = '1.3';
 const DEFAULT_MAX_MESSAGES = 100;
@@ -52,8 +54,16 @@ interface ConsoleResult {
  */
 class ConsoleTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.CONSOLE;
+  private runs = new RunAbortControllers();
 
-  async execute(args: ConsoleToolParams): Promise<ToolResult> {
+  /**
+   * End a run's flush waits early; messages collected so far are still returned
+   */
+  async cancel(runId: string): Promise<void> {
+    this.runs.abort(runId);
+  }
+
+  async execute(args: ConsoleToolParams, context?: ToolContext): Promise<ToolResult> {
     const { url, includeExceptions = true, maxMessages = DEFAULT_MAX_MESSAGES } = args;
 
     let targetTab: chrome.tabs.Tab;
@@ -78,10 +88,17 @@ class ConsoleTool extends BaseBrowserToolExecutor {
       const tabId = targetTab.id;
 
       // Capture console messages (one-time capture)
-      const result = await this.captureConsoleMessages(tabId, {
-        includeExceptions,
-        maxMessages,
-      });
+      const controller = this.runs.start(context?.runId);
+      let result: ConsoleResult;
+      try {
+        result = await this.captureConsoleMessages(tabId, {
+          includeExceptions,
+          maxMessages,
+          signal: controller.signal,
+        });
+      } finally {
+        this.runs.finish(context?.runId, controller);
+      }
 
       return {
         content: [
@@ -112,30 +129,11 @@ class ConsoleTool extends BaseBrowserToolExecutor {
       // Create new tab with the URL
       const newTab = await chrome.tabs.create({ url, active: true });
       // Wait for tab to be ready
-      await this.waitForTabReady(newTab.id!);
+      await waitForConditions(newTab.id!, { pageLoad: true }, PAGE_LOAD_TIMEOUT_MS);
       return newTab;
     }
   }
 
-  private async waitForTabReady(tabId: number): Promise<void> {
-    return new Promise((resolve) => {
-      const checkTab = async () => {
-        try {
-          const tab = await chrome.tabs.get(tabId);
-          if (tab.status === 'complete') {
-            resolve();
-          } else {
-            setTimeout(checkTab, 100);
-          }
-        } catch (error) {
-          // Tab might be closed, resolve anyway
-          resolve();
-        }
-      };
-      checkTab();
-    });
-  }
-
   private formatConsoleArgs(args: any[]): string {
     if (!args || args.length === 0) return '';
 
@@ -165,9 +163,10 @@ class ConsoleTool extends BaseBrowserToolExecutor {
     options: {
       includeExceptions: boolean;
       maxMessages: number;
+      signal?: AbortSignal;
     },
   ): Promise<ConsoleResult> {
-    const { includeExceptions, maxMessages } = options;
+    const { includeExceptions, maxMessages, signal } = options;
     const startTime = Date.now();
     const messages: ConsoleMessage[] = [];
     const exceptions: ConsoleException[] = [];
@@ -241,7 +240,18 @@ class ConsoleTool extends BaseBrowserToolExecutor {
         await chrome.debugger.sendCommand({ tabId }, 'Log.enable');
 
         // Wait for all messages to be flushed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await new Promise<void>((resolve) => {
+          if (signal?.aborted) return resolve();
+          const timer = setTimeout(resolve, 2000);
+          signal?.addEventListener(
+            'abort',
+            () => {
+              clearTimeout(timer);
+              resolve();
+            },
+            { once: true },
+          );
+        });
 
         // Process collected messages
         for (const entry of collectedMessages) {
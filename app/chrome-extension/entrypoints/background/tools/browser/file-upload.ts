@@ -0,0 +1,274 @@
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { ERROR_MESSAGES } from '@/common/constants';
+import type { ChatAttachment } from '@/types/grok';
+import { withDebugger } from './cdp-input';
+import { getRecentScreenshot } from './screenshot';
+import { loadAttachmentData } from '@/common/attachment-store';
+
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+interface UploadFileToolParams {
+  selector: string; // CSS selector of the <input type="file">
+  base64?: string; // File content, base64 encoded or as a data: URL
+  fileName?: string; // Name for base64 content or a screenshot
+  mimeType?: string; // MIME type for base64 content
+  screenshotName?: string; // Name of a screenshot captured earlier with chrome_screenshot
+  downloadId?: number; // A finished download, including screenshots saved as PNG
+  attachmentName?: string; // A file attached to the chat in this conversation
+}
+
+// File content handed to the page; text attachments are passed as they are
+interface PageFile {
+  name: string;
+  mimeType: string;
+  base64?: string;
+  text?: string;
+}
+
+function parseDataUrl(value: string): { mimeType?: string; base64: string } {
+  const match = value.match(/^data:([^;,]*)(?:;[^,]*)?;base64,/);
+  return match
+    ? { mimeType: match[1] || undefined, base64: value.slice(match[0].length) }
+    : { base64: value.replace(/\s/g, '') };
+}
+
+function base64Size(base64: string): number {
+  return Math.floor((base64.length * 3) / 4) - (base64.match(/=*$/)?.[0].length ?? 0);
+}
+
+/**
+ * Find an attachment of the conversation by file name, newest message first
+ */
+async function findAttachment(
+  conversationId: string,
+  name: string,
+): Promise<ChatAttachment | undefined> {
+  // Saved by the side panel under this key, see saveConversation in App.tsx
+  const key = `conversation_${conversationId}`;
+  const stored = await chrome.storage.local.get(key);
+  const messages: { attachments?: ChatAttachment[] }[] = stored[key]?.messages || [];
+  const wanted = name.toLowerCase();
+  for (const message of [...messages].reverse()) {
+    const match = message.attachments?.find((a) => a.name.toLowerCase() === wanted);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Runs in the page (MAIN world): put the files on the input through a DataTransfer and fire
+ * the events a user's file pick would
+ */
+function setInputFiles(selector: string, files: PageFile[]): { names?: string[]; error?: string } {
+  const input = document.querySelector(selector);
+  if (!(input instanceof HTMLInputElement) || input.type !== 'file') {
+    return { error: `Element with selector "${selector}" is not an <input type="file">` };
+  }
+  const dataTransfer = new DataTransfer();
+  for (const file of files) {
+    let content: BlobPart = file.text ?? '';
+    if (file.base64 !== undefined) {
+      const binary = atob(file.base64);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      content = bytes;
+    }
+    dataTransfer.items.add(new File([content], file.name, { type: file.mimeType }));
+  }
+  input.files = dataTransfer.files;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+  return { names: Array.from(input.files || []).map((f) => f.name) };
+}
+
+/**
+ * Runs in the page: the files currently selected on the input
+ */
+function readInputFiles(selector: string): { names?: string[]; error?: string } {
+  const input = document.querySelector(selector);
+  if (!(input instanceof HTMLInputElement) || input.type !== 'file') {
+    return { error: `Element with selector "${selector}" is not an <input type="file">` };
+  }
+  return { names: Array.from(input.files || []).map((f) => f.name) };
+}
+
+/**
+ * Tool for choosing files on <input type="file"> elements
+ */
+class UploadFileTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.UPLOAD_FILE;
+
+  async execute(args: UploadFileToolParams, context?: ToolContext): Promise<ToolResult> {
+    const { selector, base64, fileName, mimeType, screenshotName, downloadId, attachmentName } =
+      args;
+
+    if (!selector) {
+      return createErrorResponse(ERROR_MESSAGES.INVALID_PARAMETERS + ': Selector must be provided');
+    }
+    const sources = [base64, screenshotName, downloadId, attachmentName].filter(
+      (source) => source !== undefined,
+    );
+    if (sources.length !== 1) {
+      return createErrorResponse(
+        ERROR_MESSAGES.INVALID_PARAMETERS +
+          ': Provide exactly one of base64, screenshotName, downloadId or attachmentName',
+      );
+    }
+
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        return createErrorResponse(ERROR_MESSAGES.TAB_NOT_FOUND);
+      }
+
+      // A file on disk is handed to the input by path; Chrome reads it like a user's pick
+      if (downloadId !== undefined) {
+        const [item] = await chrome.downloads.search({ id: downloadId });
+        if (!item) {
+          return createErrorResponse(`Download ${downloadId} not found`);
+        }
+        if (item.state !== 'complete' || !item.exists) {
+          return createErrorResponse(
+            `Download ${downloadId} is not available (state: ${item.state}${item.exists ? '' : ', file missing'})`,
+          );
+        }
+
+        const [check] = await chrome.scripting.executeScript({
+          target: { tabId: tab.id },
+          func: readInputFiles,
+          args: [selector],
+        });
+        if (check?.result?.error) {
+          return createErrorResponse(check.result.error);
+        }
+
+        await withDebugger(tab.id, async (send) => {
+          const { root } = await send('DOM.getDocument', { depth: 0 });
+          const { nodeId } = await send('DOM.querySelector', { nodeId: root.nodeId, selector });
+          if (!nodeId) {
+            throw new Error(`Element with selector "${selector}" not found`);
+          }
+          await send('DOM.setFileInputFiles', { files: [item.filename], nodeId });
+        });
+
+        const [after] = await chrome.scripting.executeScript({
+          target: { tabId: tab.id },
+          func: readInputFiles,
+          args: [selector],
+        });
+        return this.success(after?.result?.names, {
+          fileName: item.filename.split(/[\\/]/).pop(),
+          mimeType: item.mime,
+          size: item.fileSize,
+          method: 'debugger',
+        });
+      }
+
+      let file: PageFile;
+      let size: number;
+      if (base64 !== undefined) {
+        const parsed = parseDataUrl(base64);
+        file = {
+          name: fileName || 'file',
+          mimeType: mimeType || parsed.mimeType || 'application/octet-stream',
+          base64: parsed.base64,
+        };
+        size = base64Size(parsed.base64);
+      } else if (screenshotName !== undefined) {
+        const dataUrl = getRecentScreenshot(screenshotName);
+        if (!dataUrl) {
+          return createErrorResponse(
+            `No recent screenshot named "${screenshotName}". Capture it again with chrome_screenshot, or pass the downloadId of a saved PNG`,
+          );
+        }
+        const parsed = parseDataUrl(dataUrl);
+        file = {
+          name: fileName || `${screenshotName}.png`,
+          mimeType: parsed.mimeType || 'image/png',
+          base64: parsed.base64,
+        };
+        size = base64Size(parsed.base64);
+      } else {
+        if (!context?.conversationId) {
+          return createErrorResponse(
+            'Chat attachments are only available in side panel conversations',
+          );
+        }
+        const attachment = await findAttachment(context.conversationId, attachmentName!);
+        if (!attachment) {
+          return createErrorResponse(
+            `No attachment named "${attachmentName}" in this conversation`,
+          );
+        }
+        // Stored conversations keep file data apart from the message, see attachment-store
+        const dataUrl = attachment.dataUrl ?? (await loadAttachmentData(attachment.id));
+        if (dataUrl) {
+          const parsed = parseDataUrl(dataUrl);
+          file = {
+            name: attachment.name,
+            mimeType: parsed.mimeType || attachment.mimeType,
+            base64: parsed.base64,
+          };
+          size = base64Size(parsed.base64);
+        } else if (attachment.text !== undefined && !attachment.truncated) {
+          file = { name: attachment.name, mimeType: attachment.mimeType, text: attachment.text };
+          size = new TextEncoder().encode(attachment.text).length;
+        } else {
+          // Long text files are only kept up to the inline limit
+          return createErrorResponse(
+            `Attachment "${attachment.name}" was only stored in part and cannot be uploaded`,
+          );
+        }
+      }
+
+      if (size > MAX_UPLOAD_BYTES) {
+        return createErrorResponse(
+          `File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB; save it as a download and pass downloadId`,
+        );
+      }
+
+      const [injection] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: setInputFiles,
+        args: [selector, [file]],
+        world: 'MAIN',
+      });
+      const result = injection?.result;
+      if (!result || result.error) {
+        return createErrorResponse(result?.error || 'Failed to set the files on the input');
+      }
+      return this.success(result.names, {
+        fileName: file.name,
+        mimeType: file.mimeType,
+        size,
+        method: 'dataTransfer',
+      });
+    } catch (error) {
+      console.error('Error in upload file operation:', error);
+      return createErrorResponse(
+        `Error uploading file: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private success(names: string[] | undefined, details: Record<string, unknown>): ToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            message: 'File set on the input',
+            files: names,
+            ...details,
+          }),
+        },
+      ],
+      isError: false,
+    };
+  }
+}
+
+export const uploadFileTool = new UploadFileTool();
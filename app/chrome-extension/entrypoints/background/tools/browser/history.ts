@@ -1,6 +1,7 @@
 import { createErrorResponse, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { historySourceId } from '@/common/citations';
 import {
   parseISO,
   subDays,
@@ -23,6 +24,7 @@ interface HistoryToolParams {
 
 interface HistoryItem {
   id: string;
+  sourceId: string; // For citing this item in answers
   url?: string;
   title?: string;
   lastVisitTime?: number; // Timestamp in milliseconds
@@ -192,6 +194,7 @@ class HistoryTool extends BaseBrowserToolExecutor {
       const result: HistoryResult = {
         items: filteredItems.map((item) => ({
           id: item.id,
+          sourceId: historySourceId(item.id),
           url: item.url,
           title: item.title,
           lastVisitTime: item.lastVisitTime,
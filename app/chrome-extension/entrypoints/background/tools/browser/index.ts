@@ -3,7 +3,7 @@ export { windowTool } from './window';
 export { vectorSearchTabsContentTool as searchTabsContentTool } from './vector-search';
 export { screenshotTool } from './screenshot';
 export { webFetcherTool, getInteractiveElementsTool } from './web-fetcher';
-export { clickTool, fillTool } from './interaction';
+export { clickTool, fillTool, scrollTool, hoverTool, dragTool } from './interaction';
 export { networkRequestTool } from './network-request';
 export { networkDebuggerStartTool, networkDebuggerStopTool } from './network-capture-debugger';
 export { networkCaptureStartTool, networkCaptureStopTool } from './network-capture-web-request';
@@ -12,3 +12,5 @@ export { historyTool } from './history';
 export { bookmarkSearchTool, bookmarkAddTool, bookmarkDeleteTool } from './bookmark';
 export { injectScriptTool, sendCommandToInjectScriptTool } from './inject-script';
 export { consoleTool } from './console';
+export { waitForTool } from './wait-for';
+export { uploadFileTool } from './file-upload';
@@ -2,6 +2,7 @@ import { createErrorResponse, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { ExecutionWorld } from '@/common/constants';
+import { PAGE_LOAD_TIMEOUT_MS, waitForConditions } from './wait-for';
 
 interface InjectScriptParam {
   url?: string;
@@ -53,7 +54,7 @@ class InjectScriptTool extends BaseBrowserToolExecutor {
 
           // Wait for page to load
           console.log('Waiting for page to load...');
-          await new Promise((resolve) => setTimeout(resolve, 3000));
+          await waitForConditions(tab.id!, { pageLoad: true }, PAGE_LOAD_TIMEOUT_MS);
         }
       } else {
         // Use active tab
@@ -3,17 +3,40 @@ import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
 import { TIMEOUTS, ERROR_MESSAGES } from '@/common/constants';
+import { WaitConditions, waitForConditions } from './wait-for';
+import {
+  applyTrustedInput,
+  InputMethod,
+  MouseButton,
+  trustedClick,
+  trustedDrag,
+  trustedHover,
+  trustedInsertText,
+  trustedScroll,
+} from './cdp-input';
+import { resolveInputMode } from '@/utils/trusted-input';
 
 interface Coordinates {
   x: number;
   y: number;
 }
 
+type TrustedInputOutcome = { inputMethod: InputMethod; trustedError?: string; hint?: string };
+
+async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab;
+}
+
 interface ClickToolParams {
   selector?: string; // CSS selector for the element to click
   coordinates?: Coordinates; // Coordinates to click at (x, y relative to viewport)
   waitForNavigation?: boolean; // Whether to wait for navigation to complete after click
+  waitFor?: WaitConditions; // Conditions to wait for after the click
   timeout?: number; // Timeout in milliseconds for waiting for the element or navigation
+  button?: MouseButton; // Mouse button to click with (default: left)
+  clickCount?: number; // 2 for a double click (default: 1)
+  trusted?: boolean; // true: always click through the debugger, false: never (default: per site)
 }
 
 /**
@@ -30,7 +53,11 @@ class ClickTool extends BaseBrowserToolExecutor {
       selector,
       coordinates,
       waitForNavigation = false,
+      waitFor,
       timeout = TIMEOUTS.DEFAULT_WAIT * 5,
+      button = 'left',
+      clickCount = 1,
+      trusted,
     } = args;
 
     console.log(`Starting click operation with options:`, args);
@@ -55,14 +82,38 @@ class ClickTool extends BaseBrowserToolExecutor {
 
       await this.injectContentScript(tab.id, ['inject-scripts/click-helper.js']);
 
-      // Send click message to content script
-      const result = await this.sendMessageToTab(tab.id, {
-        action: TOOL_MESSAGE_TYPES.CLICK_ELEMENT,
-        selector,
-        coordinates,
-        waitForNavigation,
-        timeout,
-      });
+      const mode = await resolveInputMode(trusted, tab.url);
+      let result;
+      if (button === 'left' && clickCount === 1 && mode !== 'trusted') {
+        // Send click message to content script
+        result = await this.sendMessageToTab(tab.id, {
+          action: TOOL_MESSAGE_TYPES.CLICK_ELEMENT,
+          selector,
+          coordinates,
+          waitForNavigation,
+          timeout,
+        });
+      } else {
+        // Right, middle and double clicks need the full mouse event sequence
+        result = await this.sendMessageToTab(tab.id, {
+          action: TOOL_MESSAGE_TYPES.MOUSE_CLICK,
+          selector,
+          coordinates,
+          button,
+          clickCount,
+          dispatch: mode !== 'trusted',
+        });
+      }
+      // Without a resolved point there is nothing to send trusted input to
+      if (result.error) {
+        return createErrorResponse(result.error);
+      }
+      const input = await applyTrustedInput(mode, result.effect, () =>
+        trustedClick(tab.id!, result.point, button, clickCount),
+      );
+
+      // The click succeeded either way; report whether the page reached the expected state
+      const wait = waitFor ? await waitForConditions(tab.id, waitFor, timeout) : undefined;
 
       return {
         content: [
@@ -74,6 +125,16 @@ class ClickTool extends BaseBrowserToolExecutor {
               elementInfo: result.elementInfo,
               navigationOccurred: result.navigationOccurred,
               clickMethod: coordinates ? 'coordinates' : 'selector',
+              button,
+              clickCount,
+              pageChanged: result.effect,
+              ...input,
+              waitFor: wait && {
+                met: wait.met,
+                elapsedMs: wait.elapsedMs,
+                unmet: wait.unmet,
+                error: wait.error,
+              },
             }),
           },
         ],
@@ -93,6 +154,7 @@ export const clickTool = new ClickTool();
 interface FillToolParams {
   selector: string;
   value: string;
+  trusted?: boolean; // true: always type through the debugger, false: never (default: per site)
 }
 
 /**
@@ -105,7 +167,7 @@ class FillTool extends BaseBrowserToolExecutor {
    * Execute fill operation
    */
   async execute(args: FillToolParams): Promise<ToolResult> {
-    const { selector, value } = args;
+    const { selector, value, trusted } = args;
 
     console.log(`Starting fill operation with options:`, args);
 
@@ -131,25 +193,48 @@ class FillTool extends BaseBrowserToolExecutor {
 
       await this.injectContentScript(tab.id, ['inject-scripts/fill-helper.js']);
 
+      const mode = await resolveInputMode(trusted, tab.url);
       // Send fill message to content script
       const result = await this.sendMessageToTab(tab.id, {
         action: TOOL_MESSAGE_TYPES.FILL_ELEMENT,
         selector,
         value,
+        dispatch: mode !== 'trusted',
       });
 
       if (result.error) {
         return createErrorResponse(result.error);
       }
 
+      // The helper focuses and selects the field when the value has to be typed; editors such
+      // as contenteditable rich text have no synthetic fill at all, selects cannot be typed into
+      const fillMode = result.needsTyping ? 'trusted' : result.canType ? mode : 'synthetic';
+      const input = await applyTrustedInput(fillMode, result.effect, async () => {
+        if (!result.needsTyping) {
+          const focused = await this.sendMessageToTab(tab.id!, {
+            action: TOOL_MESSAGE_TYPES.FILL_ELEMENT,
+            selector,
+            value,
+            dispatch: false,
+          });
+          if (focused.error) throw new Error(focused.error);
+        }
+        await trustedInsertText(tab.id!, value);
+      });
+
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               success: true,
-              message: result.message || 'Fill operation successful',
+              message:
+                input.inputMethod === 'trusted'
+                  ? 'Element filled with trusted input'
+                  : result.message || 'Fill operation successful',
               elementInfo: result.elementInfo,
+              valueKept: result.effect,
+              ...input,
             }),
           },
         ],
@@ -165,3 +250,260 @@ class FillTool extends BaseBrowserToolExecutor {
 }
 
 export const fillTool = new FillTool();
+
+interface ScrollToolParams {
+  selector?: string; // CSS selector of an element to scroll into view
+  container?: string; // CSS selector of a scrollable element to scroll instead of the page
+  deltaX?: number; // Pixels to scroll horizontally
+  deltaY?: number; // Pixels to scroll vertically
+  position?: 'top' | 'bottom'; // Scroll to an edge instead of by an offset
+  trusted?: boolean; // true: always scroll with a real wheel event, false: never (default: per site)
+}
+
+/**
+ * Tool for scrolling the page, a container or an element into view
+ */
+class ScrollTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.SCROLL;
+
+  async execute(args: ScrollToolParams): Promise<ToolResult> {
+    const { selector, container, deltaX = 0, deltaY = 0, position, trusted } = args;
+
+    if (!selector && !position && !deltaX && !deltaY) {
+      return createErrorResponse(
+        ERROR_MESSAGES.INVALID_PARAMETERS + ': Provide a selector, deltaX/deltaY or position',
+      );
+    }
+
+    try {
+      const tab = await getActiveTab();
+      if (!tab?.id) {
+        return createErrorResponse(ERROR_MESSAGES.TAB_NOT_FOUND);
+      }
+      const tabId = tab.id;
+      const mode = await resolveInputMode(trusted, tab.url);
+
+      await this.injectContentScript(tabId, ['inject-scripts/click-helper.js']);
+
+      const message = {
+        action: TOOL_MESSAGE_TYPES.SCROLL_ELEMENT,
+        selector,
+        container,
+        deltaX,
+        deltaY,
+        position,
+      };
+      // Scrolling an element into view is not an input event, so it never needs the debugger
+      const useTrusted = mode === 'trusted' && !selector;
+      let result = await this.sendMessageToTab(tabId, { ...message, dispatch: !useTrusted });
+      if (result.error) {
+        return createErrorResponse(result.error);
+      }
+
+      let input: TrustedInputOutcome = { inputMethod: 'synthetic' };
+      if (!selector) {
+        // Pages that scroll virtual lists on wheel events ignore scrollBy
+        const edge = result.before.scrollHeight;
+        const wheelY = position === 'top' ? -edge : position === 'bottom' ? edge : deltaY;
+        input = await applyTrustedInput(
+          mode,
+          result.moved,
+          () => trustedScroll(tabId, result.point, position ? 0 : deltaX, wheelY),
+          true,
+        );
+        if (input.inputMethod === 'trusted') {
+          await new Promise((resolve) => setTimeout(resolve, TIMEOUTS.DEFAULT_WAIT / 2));
+          const settled = await this.sendMessageToTab(tabId, { ...message, dispatch: false });
+          if (settled.error) {
+            return createErrorResponse(settled.error);
+          }
+          result = {
+            ...result,
+            after: settled.after,
+            moved: settled.after.x !== result.before.x || settled.after.y !== result.before.y,
+          };
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: result.message || (result.moved ? 'Scrolled' : 'Scroll position unchanged'),
+              moved: result.moved,
+              before: result.before,
+              after: result.after,
+              elementInfo: result.elementInfo,
+              ...input,
+            }),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error('Error in scroll operation:', error);
+      return createErrorResponse(
+        `Error scrolling: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+export const scrollTool = new ScrollTool();
+
+interface HoverToolParams {
+  selector?: string; // CSS selector for the element to hover
+  coordinates?: Coordinates; // Coordinates to hover at (x, y relative to viewport)
+  trusted?: boolean; // true: always move the real pointer, false: never (default: per site)
+}
+
+/**
+ * Tool for hovering elements, e.g. to open hover menus or tooltips
+ */
+class HoverTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.HOVER;
+
+  async execute(args: HoverToolParams): Promise<ToolResult> {
+    const { selector, coordinates, trusted } = args;
+
+    if (!selector && !coordinates) {
+      return createErrorResponse(
+        ERROR_MESSAGES.INVALID_PARAMETERS + ': Either selector or coordinates must be provided',
+      );
+    }
+
+    try {
+      const tab = await getActiveTab();
+      if (!tab?.id) {
+        return createErrorResponse(ERROR_MESSAGES.TAB_NOT_FOUND);
+      }
+      const tabId = tab.id;
+      const mode = await resolveInputMode(trusted, tab.url);
+
+      await this.injectContentScript(tabId, ['inject-scripts/click-helper.js']);
+
+      const result = await this.sendMessageToTab(tabId, {
+        action: TOOL_MESSAGE_TYPES.HOVER_ELEMENT,
+        selector,
+        coordinates,
+        dispatch: mode !== 'trusted',
+      });
+      if (result.error) {
+        return createErrorResponse(result.error);
+      }
+      // Synthetic events never trigger CSS :hover, so retry with the real pointer
+      const input = await applyTrustedInput(
+        mode,
+        result.effect,
+        () => trustedHover(tabId, result.point),
+        true,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'Hover operation successful',
+              elementInfo: result.elementInfo,
+              pageChanged: result.effect,
+              ...input,
+            }),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error('Error in hover operation:', error);
+      return createErrorResponse(
+        `Error hovering element: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+export const hoverTool = new HoverTool();
+
+interface DragToolParams {
+  fromSelector?: string; // CSS selector of the element to drag
+  fromCoordinates?: Coordinates; // Point to start dragging from
+  toSelector?: string; // CSS selector of the drop target
+  toCoordinates?: Coordinates; // Point to drop at
+  trusted?: boolean; // true: always drag with real mouse events, false: never (default: per site)
+}
+
+/**
+ * Tool for dragging an element or point onto another, e.g. in sortable lists
+ */
+class DragTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.DRAG_AND_DROP;
+
+  async execute(args: DragToolParams): Promise<ToolResult> {
+    const { fromSelector, fromCoordinates, toSelector, toCoordinates, trusted } = args;
+
+    if ((!fromSelector && !fromCoordinates) || (!toSelector && !toCoordinates)) {
+      return createErrorResponse(
+        ERROR_MESSAGES.INVALID_PARAMETERS +
+          ': Provide fromSelector or fromCoordinates, and toSelector or toCoordinates',
+      );
+    }
+
+    try {
+      const tab = await getActiveTab();
+      if (!tab?.id) {
+        return createErrorResponse(ERROR_MESSAGES.TAB_NOT_FOUND);
+      }
+      const tabId = tab.id;
+      const mode = await resolveInputMode(trusted, tab.url);
+
+      await this.injectContentScript(tabId, ['inject-scripts/click-helper.js']);
+
+      const result = await this.sendMessageToTab(tabId, {
+        action: TOOL_MESSAGE_TYPES.DRAG_ELEMENT,
+        fromSelector,
+        fromCoordinates,
+        toSelector,
+        toCoordinates,
+        dispatch: mode !== 'trusted',
+      });
+      if (result.error) {
+        return createErrorResponse(result.error);
+      }
+      const input = await applyTrustedInput(
+        mode,
+        result.effect,
+        () => trustedDrag(tabId, result.from, result.to),
+        true,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: result.message || 'Drag operation successful',
+              from: result.from,
+              to: result.to,
+              sourceInfo: result.sourceInfo,
+              targetInfo: result.targetInfo,
+              pageChanged: result.effect,
+              ...input,
+            }),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error('Error in drag operation:', error);
+      return createErrorResponse(
+        `Error dragging element: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+export const dragTool = new DragTool();
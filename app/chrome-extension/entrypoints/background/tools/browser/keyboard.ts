@@ -3,11 +3,14 @@ import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
 import { TIMEOUTS, ERROR_MESSAGES } from '@/common/constants';
+import { resolveInputMode } from '@/utils/trusted-input';
+import { applyTrustedInput, trustedKeyPresses } from './cdp-input';
 
 interface KeyboardToolParams {
   keys: string; // Required: string representing keys or key combinations to simulate (e.g., "Enter", "Ctrl+C")
   selector?: string; // Optional: CSS selector for target element to send keyboard events to
   delay?: number; // Optional: delay between keystrokes in milliseconds
+  trusted?: boolean; // Optional: true always sends keys through the debugger, false never (default: per site)
 }
 
 /**
@@ -20,7 +23,7 @@ class KeyboardTool extends BaseBrowserToolExecutor {
    * Execute keyboard operation
    */
   async execute(args: KeyboardToolParams): Promise<ToolResult> {
-    const { keys, selector, delay = TIMEOUTS.KEYBOARD_DELAY } = args;
+    const { keys, selector, delay = TIMEOUTS.KEYBOARD_DELAY, trusted } = args;
 
     console.log(`Starting keyboard operation with options:`, args);
 
@@ -44,18 +47,35 @@ class KeyboardTool extends BaseBrowserToolExecutor {
 
       await this.injectContentScript(tab.id, ['inject-scripts/keyboard-helper.js']);
 
-      // Send keyboard simulation message to content script
-      const result = await this.sendMessageToTab(tab.id, {
+      const mode = await resolveInputMode(trusted, tab.url);
+      const message = {
         action: TOOL_MESSAGE_TYPES.SIMULATE_KEYBOARD,
         keys,
         selector,
         delay,
+      };
+      // Send keyboard simulation message to content script
+      const result = await this.sendMessageToTab(tab.id, {
+        ...message,
+        dispatch: mode !== 'trusted',
       });
 
       if (result.error) {
         return createErrorResponse(result.error);
       }
 
+      // Synthetic key events never type text or trigger default actions such as submitting
+      const input = await applyTrustedInput(mode, result.effect, async () => {
+        // The helper refocuses the target and parses the keys without dispatching them
+        const target = result.presses
+          ? result
+          : await this.sendMessageToTab(tab.id!, { ...message, dispatch: false });
+        if (target.error || !target.presses) {
+          throw new Error(target.error || 'No keys to send');
+        }
+        await trustedKeyPresses(tab.id!, target.presses, delay);
+      });
+
       return {
         content: [
           {
@@ -65,6 +85,8 @@ class KeyboardTool extends BaseBrowserToolExecutor {
               message: result.message || 'Keyboard operation successful',
               targetElement: result.targetElement,
               results: result.results,
+              pageChanged: result.effect,
+              ...input,
             }),
           },
         ],
@@ -1,4 +1,4 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 
@@ -183,6 +183,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
         maxCaptureTime: openerCaptureInfo.maxCaptureTime,
         inactivityTimeout: openerCaptureInfo.inactivityTimeout,
         includeStatic: openerCaptureInfo.includeStatic,
+        runId: openerCaptureInfo.runId,
       });
 
       console.log(`NetworkDebuggerStartTool: Successfully extended capture to new tab ${newTabId}`);
@@ -202,9 +203,10 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
       maxCaptureTime: number;
       inactivityTimeout: number;
       includeStatic: boolean;
+      runId?: string;
     },
   ): Promise<void> {
-    const { maxCaptureTime, inactivityTimeout, includeStatic } = options;
+    const { maxCaptureTime, inactivityTimeout, includeStatic, runId } = options;
 
     // If already capturing, stop first
     if (this.captureData.has(tabId)) {
@@ -259,6 +261,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
         maxCaptureTime,
         inactivityTimeout,
         includeStatic,
+        runId,
         requests: {},
         limitReached: false,
       });
@@ -923,7 +926,17 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     return specificHeaders;
   }
 
-  async execute(args: NetworkDebuggerStartToolParams): Promise<ToolResult> {
+  /**
+   * Stop the captures started by a run and detach the debugger from those tabs
+   */
+  async cancel(runId: string): Promise<void> {
+    const tabIds = Array.from(this.captureData.entries())
+      .filter(([, captureInfo]) => captureInfo.runId === runId)
+      .map(([tabId]) => tabId);
+    await Promise.all(tabIds.map((tabId) => this.stopCapture(tabId)));
+  }
+
+  async execute(args: NetworkDebuggerStartToolParams, context?: ToolContext): Promise<ToolResult> {
     const {
       url: targetUrl,
       maxCaptureTime = DEFAULT_MAX_CAPTURE_TIME_MS,
@@ -973,6 +986,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
           maxCaptureTime,
           inactivityTimeout,
           includeStatic,
+          runId: context?.runId,
         });
       } catch (error: any) {
         return createErrorResponse(
@@ -1,4 +1,4 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { LIMITS, NETWORK_FILTERS } from '@/common/constants';
@@ -84,6 +84,7 @@ interface CaptureInfo {
   inactivityTimeout: number;
   includeStatic: boolean;
   limitReached?: boolean; // Whether request count limit is reached
+  runId?: string; // Agent run that started the capture
 }
 
 /**
@@ -192,6 +193,7 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
         maxCaptureTime: openerCaptureInfo.maxCaptureTime,
         inactivityTimeout: openerCaptureInfo.inactivityTimeout,
         includeStatic: openerCaptureInfo.includeStatic,
+        runId: openerCaptureInfo.runId,
       });
 
       console.log(`NetworkCaptureV2: Successfully extended capture to new tab ${newTabId}`);
@@ -560,9 +562,10 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
       maxCaptureTime: number;
       inactivityTimeout: number;
       includeStatic: boolean;
+      runId?: string;
     },
   ): Promise<void> {
-    const { maxCaptureTime, inactivityTimeout, includeStatic } = options;
+    const { maxCaptureTime, inactivityTimeout, includeStatic, runId } = options;
 
     // If already capturing, stop first
     if (this.captureData.has(tabId)) {
@@ -587,6 +590,7 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
         inactivityTimeout,
         includeStatic,
         limitReached: false,
+        runId,
       });
 
       // Initialize request counter
@@ -781,7 +785,17 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
     return specificHeaders;
   }
 
-  async execute(args: NetworkCaptureStartToolParams): Promise<ToolResult> {
+  /**
+   * Stop the captures started by a run, discarding the collected requests
+   */
+  async cancel(runId: string): Promise<void> {
+    const tabIds = Array.from(this.captureData.values())
+      .filter((captureInfo) => captureInfo.runId === runId)
+      .map((captureInfo) => captureInfo.tabId);
+    await Promise.all(tabIds.map((tabId) => this.stopCapture(tabId)));
+  }
+
+  async execute(args: NetworkCaptureStartToolParams, context?: ToolContext): Promise<ToolResult> {
     const {
       url: targetUrl,
       maxCaptureTime = 3 * 60 * 1000, // Default 3 minutes
@@ -830,6 +844,7 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
           maxCaptureTime,
           inactivityTimeout,
           includeStatic,
+          runId: context?.runId,
         });
       } catch (error: any) {
         return createErrorResponse(
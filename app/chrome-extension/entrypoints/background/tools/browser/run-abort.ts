@@ -0,0 +1,32 @@
+/**
+ * Abort controllers of in-flight tool calls, grouped by the agent run that made them
+ * Cancelling a run aborts only its own calls; calls made outside a run cannot be cancelled
+ */
+export class RunAbortControllers {
+  private controllers: Map<string, Set<AbortController>> = new Map(); // runId -> in-flight calls
+
+  /**
+   * Create the controller of one call; pass it to finish when the call ends
+   */
+  start(runId: string | undefined): AbortController {
+    const controller = new AbortController();
+    if (runId) {
+      const calls = this.controllers.get(runId) ?? new Set();
+      calls.add(controller);
+      this.controllers.set(runId, calls);
+    }
+    return controller;
+  }
+
+  finish(runId: string | undefined, controller: AbortController): void {
+    if (!runId) return;
+    const calls = this.controllers.get(runId);
+    calls?.delete(controller);
+    if (calls?.size === 0) this.controllers.delete(runId);
+  }
+
+  abort(runId: string): void {
+    this.controllers.get(runId)?.forEach((controller) => controller.abort());
+    this.controllers.delete(runId);
+  }
+}
@@ -1,8 +1,9 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
 import { TIMEOUTS, ERROR_MESSAGES } from '@/common/constants';
+import { RunAbortControllers } from './run-abort';
 import {
   canvasToDataURL,
   createImageBitmapFromUrl,
@@ -21,6 +22,22 @@ const SCREENSHOT_CONSTANTS = {
   SCRIPT_INIT_DELAY: 100, // Delay for script initialization
 } as const;
 
+// Recent captures by name, so chrome_upload_file can upload a screenshot taken earlier
+const MAX_RECENT_SCREENSHOTS = 5;
+const recentScreenshots = new Map<string, string>();
+
+export function getRecentScreenshot(name: string): string | undefined {
+  return recentScreenshots.get(name);
+}
+
+function rememberScreenshot(name: string, dataUrl: string) {
+  recentScreenshots.delete(name);
+  recentScreenshots.set(name, dataUrl);
+  if (recentScreenshots.size > MAX_RECENT_SCREENSHOTS) {
+    recentScreenshots.delete(recentScreenshots.keys().next().value!);
+  }
+}
+
 interface ScreenshotToolParams {
   name: string;
   selector?: string;
@@ -37,11 +54,19 @@ interface ScreenshotToolParams {
  */
 class ScreenshotTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.SCREENSHOT;
+  private runs = new RunAbortControllers();
+
+  /**
+   * Abort a run's full page captures between scroll steps
+   */
+  async cancel(runId: string): Promise<void> {
+    this.runs.abort(runId);
+  }
 
   /**
    * Execute screenshot operation
    */
-  async execute(args: ScreenshotToolParams): Promise<ToolResult> {
+  async execute(args: ScreenshotToolParams, context?: ToolContext): Promise<ToolResult> {
     const {
       name = 'screenshot',
       selector,
@@ -74,6 +99,7 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
     let finalImageDataUrl: string | undefined;
     const results: any = { base64: null, fileSaved: false };
     let originalScroll = { x: 0, y: 0 };
+    const controller = this.runs.start(context?.runId);
 
     try {
       await this.injectContentScript(tab.id!, ['inject-scripts/screenshot-helper.js']);
@@ -93,7 +119,12 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
 
       if (fullPage) {
         this.logInfo('Capturing full page...');
-        finalImageDataUrl = await this._captureFullPage(tab.id!, args, pageDetails);
+        finalImageDataUrl = await this._captureFullPage(
+          tab.id!,
+          args,
+          pageDetails,
+          controller.signal,
+        );
       } else if (selector) {
         this.logInfo(`Capturing element: ${selector}`);
         finalImageDataUrl = await this._captureElement(tab.id!, args, pageDetails.devicePixelRatio);
@@ -106,6 +137,7 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
       if (!finalImageDataUrl) {
         throw new Error('Failed to capture image data');
       }
+      rememberScreenshot(name, finalImageDataUrl);
 
       // 2. Process output
       if (storeBase64 === true) {
@@ -116,14 +148,25 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
           format: 'image/jpeg', // JPEG for better compression
         });
 
-        // Include base64 data in response (without prefix)
+        // Return the image as MCP image content (without data URL prefix) so vision models can see it
         const base64Data = compressed.dataUrl.replace(/^data:image\/[^;]+;base64,/, '');
         results.base64 = base64Data;
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ base64Data, mimeType: compressed.mimeType }),
+              text: JSON.stringify({
+                success: true,
+                message: `Screenshot [${name}] captured successfully`,
+                tabId: tab.id,
+                url: tab.url,
+                mimeType: compressed.mimeType,
+              }),
+            },
+            {
+              type: 'image',
+              data: base64Data,
+              mimeType: compressed.mimeType,
             },
           ],
           isError: false,
@@ -184,6 +227,7 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
       } catch (err) {
         console.warn('Failed to reset page, tab might have closed:', err);
       }
+      this.runs.finish(context?.runId, controller);
     }
 
     this.logInfo('Screenshot completed!');
@@ -262,6 +306,7 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
     tabId: number,
     options: ScreenshotToolParams,
     initialPageDetails: any,
+    signal?: AbortSignal,
   ): Promise<string> {
     const dpr = initialPageDetails.devicePixelRatio;
     const totalWidthCss = options.width || initialPageDetails.totalWidth; // Use option width if provided
@@ -290,6 +335,10 @@ class ScreenshotTool extends BaseBrowserToolExecutor {
     let partIndex = 0;
 
     while (capturedHeightPx < totalHeightPx && partIndex < SCREENSHOT_CONSTANTS.MAX_CAPTURE_PARTS) {
+      if (signal?.aborted) {
+        throw new Error('Full page capture cancelled');
+      }
+
       this.logInfo(
         `Capturing part ${partIndex + 1}... (${Math.round((capturedHeightPx / totalHeightPx) * 100)}%)`,
       );
@@ -9,6 +9,7 @@ import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { ContentIndexer } from '@/utils/content-indexer';
 import { LIMITS, ERROR_MESSAGES } from '@/common/constants';
 import type { SearchResult } from '@/utils/vector-database';
+import { tabSourceId } from '@/common/citations';
 
 interface VectorSearchResult {
   tabId: number;
@@ -17,6 +18,7 @@ interface VectorSearchResult {
   semanticScore: number;
   matchedSnippet: string;
   chunkSource: string;
+  chunkIndex: number;
   timestamp: number;
 }
 
@@ -108,12 +110,14 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
           semanticEngineInitializing: stats.semanticEngineInitializing,
         },
         matchedTabs: topResults.map((result) => ({
+          sourceId: tabSourceId(result.tabId, result.chunkIndex),
           tabId: result.tabId,
           url: result.url,
           title: result.title,
           semanticScore: result.semanticScore,
           matchedSnippets: [result.matchedSnippet],
           chunkSource: result.chunkSource,
+          chunkIndex: result.chunkIndex,
           timestamp: result.timestamp,
         })),
       };
@@ -167,6 +171,7 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
       semanticScore: result.similarity,
       matchedSnippet: this.extractSnippet(result.document.chunk.text),
       chunkSource: result.document.chunk.source,
+      chunkIndex: result.document.chunk.index,
       timestamp: result.document.timestamp,
     }));
   }
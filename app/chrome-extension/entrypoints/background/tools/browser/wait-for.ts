@@ -0,0 +1,260 @@
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { ERROR_MESSAGES } from '@/common/constants';
+import { RunAbortControllers } from './run-abort';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const MAX_WAIT_TIMEOUT_MS = 120000;
+const POLL_INTERVAL_MS = 250;
+// Tools that open a tab wait this long for it to finish loading before reading it
+export const PAGE_LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * Conditions to wait for; every given condition must hold at the same time
+ */
+export interface WaitConditions {
+  selector?: string; // CSS selector to wait for
+  selectorState?: 'visible' | 'hidden'; // Wait for the selector to appear (default) or disappear
+  text?: string; // Text that must be present in the page
+  urlPattern?: string; // Substring, glob with *, or /regex/ the tab URL must match
+  networkIdleMs?: number; // No requests in flight for this many milliseconds
+  pageLoad?: boolean; // The tab has finished loading
+}
+
+export interface WaitOutcome {
+  met: boolean;
+  elapsedMs: number;
+  // Conditions still unmet when the wait ended
+  unmet: string[];
+  url?: string;
+  error?: string;
+}
+
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]).test(url);
+  if (pattern.includes('*')) {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(url);
+  }
+  return url.includes(pattern);
+}
+
+/**
+ * Count requests of a tab through webRequest; long-lived WebSockets are ignored
+ */
+function trackNetwork(tabId: number) {
+  const inflight = new Set<string>();
+  let lastActivity = Date.now();
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'], tabId };
+  const onStart = (details: chrome.webRequest.WebRequestBodyDetails) => {
+    if (details.type === 'websocket') return undefined;
+    inflight.add(details.requestId);
+    lastActivity = Date.now();
+    return undefined;
+  };
+  const onEnd = (details: { requestId: string }) => {
+    if (inflight.delete(details.requestId)) lastActivity = Date.now();
+  };
+  chrome.webRequest.onBeforeRequest.addListener(onStart, filter);
+  chrome.webRequest.onCompleted.addListener(onEnd, filter);
+  chrome.webRequest.onErrorOccurred.addListener(onEnd, filter);
+
+  return {
+    idleFor: () => (inflight.size > 0 ? 0 : Date.now() - lastActivity),
+    stop: () => {
+      chrome.webRequest.onBeforeRequest.removeListener(onStart);
+      chrome.webRequest.onCompleted.removeListener(onEnd);
+      chrome.webRequest.onErrorOccurred.removeListener(onEnd);
+    },
+  };
+}
+
+/**
+ * Runs in the page: check the selector and text conditions
+ */
+function checkPage(
+  selector: string | null,
+  selectorState: string,
+  text: string | null,
+): { selector: boolean; text: boolean; error?: string } {
+  const result = { selector: true, text: true };
+  if (selector) {
+    let element: Element | null;
+    try {
+      element = document.querySelector(selector);
+    } catch {
+      return { ...result, error: `Invalid selector: ${selector}` };
+    }
+    const visible = !!element && element.getClientRects().length > 0;
+    result.selector = selectorState === 'hidden' ? !visible : visible;
+  }
+  if (text) {
+    result.text = (document.body?.innerText || '').includes(text);
+  }
+  return result;
+}
+
+/**
+ * Poll a tab until all conditions hold, the timeout passes or the signal aborts
+ */
+export async function waitForConditions(
+  tabId: number,
+  conditions: WaitConditions,
+  timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS,
+  signal?: AbortSignal,
+): Promise<WaitOutcome> {
+  const {
+    selector,
+    selectorState = 'visible',
+    text,
+    urlPattern,
+    networkIdleMs,
+    pageLoad,
+  } = conditions;
+  const network = networkIdleMs !== undefined ? trackNetwork(tabId) : null;
+  const start = Date.now();
+  let unmet: string[] = [];
+  let url: string | undefined;
+
+  try {
+    while (true) {
+      let tab: chrome.tabs.Tab;
+      try {
+        tab = await chrome.tabs.get(tabId);
+      } catch {
+        return { met: false, elapsedMs: Date.now() - start, unmet, error: 'Tab was closed' };
+      }
+      url = tab.url;
+      unmet = [];
+
+      if (pageLoad && tab.status !== 'complete') unmet.push('page load');
+      if (urlPattern) {
+        try {
+          if (!matchesUrlPattern(tab.url || '', urlPattern)) unmet.push(`URL ${urlPattern}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return {
+            met: false,
+            elapsedMs: Date.now() - start,
+            unmet,
+            url,
+            error: `Invalid URL pattern: ${message}`,
+          };
+        }
+      }
+      if (network && network.idleFor() < networkIdleMs!) {
+        unmet.push(`network idle ${networkIdleMs}ms`);
+      }
+      if (selector || text) {
+        try {
+          const [injection] = await chrome.scripting.executeScript({
+            target: { tabId },
+            func: checkPage,
+            args: [selector ?? null, selectorState, text ?? null],
+          });
+          const page = injection?.result;
+          if (page?.error) {
+            return { met: false, elapsedMs: Date.now() - start, unmet, url, error: page.error };
+          }
+          if (!page?.selector) unmet.push(`selector ${selector} ${selectorState}`);
+          if (!page?.text) unmet.push(`text "${text}"`);
+        } catch {
+          // The page is navigating or cannot be scripted yet; try again on the next poll
+          if (selector) unmet.push(`selector ${selector} ${selectorState}`);
+          if (text) unmet.push(`text "${text}"`);
+        }
+      }
+
+      const elapsedMs = Date.now() - start;
+      if (unmet.length === 0) return { met: true, elapsedMs, unmet, url };
+      if (elapsedMs >= timeoutMs) return { met: false, elapsedMs, unmet, url };
+      if (signal?.aborted) return { met: false, elapsedMs, unmet, url, error: 'Wait cancelled' };
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    network?.stop();
+  }
+}
+
+interface WaitForToolParams extends WaitConditions {
+  tabId?: number; // Tab to watch (default: active tab)
+  timeout?: number; // Milliseconds before giving up (default: 10000)
+}
+
+/**
+ * Tool for waiting until the page reaches a state before continuing
+ */
+class WaitForTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.WAIT_FOR;
+  private runs = new RunAbortControllers();
+
+  async cancel(runId: string): Promise<void> {
+    this.runs.abort(runId);
+  }
+
+  async execute(args: WaitForToolParams, context?: ToolContext): Promise<ToolResult> {
+    const { tabId, timeout = DEFAULT_WAIT_TIMEOUT_MS, ...conditions } = args;
+
+    const given = Object.entries(conditions).filter(([, value]) => value !== undefined);
+    if (!given.some(([key]) => key !== 'selectorState')) {
+      return createErrorResponse(
+        ERROR_MESSAGES.INVALID_PARAMETERS +
+          ': Provide at least one of selector, text, urlPattern, networkIdleMs or pageLoad',
+      );
+    }
+
+    const controller = this.runs.start(context?.runId);
+    try {
+      let targetId = tabId;
+      if (targetId === undefined) {
+        const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!activeTab?.id) {
+          return createErrorResponse(ERROR_MESSAGES.TAB_NOT_FOUND);
+        }
+        targetId = activeTab.id;
+      }
+
+      const outcome = await waitForConditions(
+        targetId,
+        conditions,
+        Math.min(Math.max(timeout, 0), MAX_WAIT_TIMEOUT_MS),
+        controller.signal,
+      );
+
+      if (outcome.error) {
+        return createErrorResponse(outcome.error);
+      }
+      if (!outcome.met) {
+        return createErrorResponse(
+          `Timed out after ${outcome.elapsedMs}ms waiting for: ${outcome.unmet.join(', ')}`,
+        );
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              message: 'All conditions met',
+              elapsedMs: outcome.elapsedMs,
+              tabId: targetId,
+              url: outcome.url,
+            }),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      console.error('Error in wait for operation:', error);
+      return createErrorResponse(
+        `Error waiting for conditions: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.runs.finish(context?.runId, controller);
+    }
+  }
+}
+
+export const waitForTool = new WaitForTool();
@@ -2,11 +2,14 @@ import { createErrorResponse, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
+import { tabSourceId } from '@/common/citations';
+import { PAGE_LOAD_TIMEOUT_MS, waitForConditions } from './wait-for';
 
 interface WebFetcherToolParams {
   htmlContent?: boolean; // get the visible HTML content of the current page. default: false
   textContent?: boolean; // get the visible text content of the current page. default: true
   url?: string; // optional URL to fetch content from (if not provided, uses active tab)
+  tabId?: number; // optional open tab to read in the background; takes precedence over url
   selector?: string; // optional CSS selector to get content from a specific element
 }
 
@@ -21,12 +24,14 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
     const htmlContent = args.htmlContent === true;
     const textContent = htmlContent ? false : args.textContent !== false; // Default is true, unless htmlContent is true or textContent is explicitly set to false
     const url = args.url;
+    const tabId = args.tabId;
     const selector = args.selector;
 
     console.log(`Starting web fetcher with options:`, {
       htmlContent,
       textContent,
       url,
+      tabId,
       selector,
     });
 
@@ -34,7 +39,12 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
       // Get tab to fetch content from
       let tab;
 
-      if (url) {
+      if (tabId !== undefined) {
+        tab = await chrome.tabs.get(tabId).catch(() => undefined);
+        if (!tab) {
+          return createErrorResponse(`Tab ${tabId} not found`);
+        }
+      } else if (url) {
         // If URL is provided, check if it's already open
         console.log(`Checking if URL is already open: ${url}`);
         const allTabs = await chrome.tabs.query({});
@@ -58,7 +68,7 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
 
           // Wait for page to load
           console.log('Waiting for page to load...');
-          await new Promise((resolve) => setTimeout(resolve, 3000));
+          await waitForConditions(tab.id!, { pageLoad: true }, PAGE_LOAD_TIMEOUT_MS);
         }
       } else {
         // Use active tab
@@ -73,12 +83,16 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
         return createErrorResponse('Tab has no ID');
       }
 
-      // Make sure tab is active
-      await chrome.tabs.update(tab.id, { active: true });
+      // Make sure tab is active; a tab picked by ID is read without switching to it
+      if (tabId === undefined) {
+        await chrome.tabs.update(tab.id, { active: true });
+      }
 
       // Prepare result object
       const result: any = {
         success: true,
+        sourceId: tabSourceId(tab.id),
+        tabId: tab.id,
         url: tab.url,
         title: tab.title,
       };
@@ -2,6 +2,8 @@ import { createErrorResponse } from '@/common/tool-handler';
 import { ERROR_MESSAGES } from '@/common/constants';
 import * as browserTools from './browser';
 import { todoCreateTool, todoListTool, todoUpdateTool, todoCompleteTool } from './todo';
+import { checkToolApproval, resolveToolTargetUrl } from '../tool-approval';
+import { checkToolSecurity, logToolDenied } from '../security';
 
 const tools = {
   ...browserTools,
@@ -18,6 +20,12 @@ const toolsMap = new Map(Object.values(tools).map((tool) => [tool.name, tool]));
 export interface ToolCallParam {
   name: string;
   args: any;
+  // True when the user triggered the call directly rather than the model
+  userInitiated?: boolean;
+  // Side panel conversation the call belongs to
+  conversationId?: string;
+  // Agent run that made the call, see handleCancelTools
+  runId?: string;
 }
 
 /**
@@ -30,7 +38,28 @@ export const handleCallTool = async (param: ToolCallParam) => {
   }
 
   try {
-    return await tool.execute(param.args);
+    const targetUrl = await resolveToolTargetUrl(param.args);
+
+    const verdict = await checkToolSecurity(param.name, param.args, targetUrl);
+    if (verdict.blocked) {
+      return createErrorResponse(`Blocked by security monitor: ${verdict.reason}`);
+    }
+
+    const approval = await checkToolApproval(
+      param.name,
+      param.args,
+      targetUrl,
+      param.userInitiated,
+    );
+    if (!approval.allowed) {
+      logToolDenied(param.name, targetUrl, approval.reason);
+      return createErrorResponse(approval.reason);
+    }
+
+    return await tool.execute(param.args, {
+      conversationId: param.conversationId,
+      runId: param.runId,
+    });
   } catch (error) {
     console.error(`Tool execution failed for ${param.name}:`, error);
     return createErrorResponse(
@@ -38,3 +67,17 @@ export const handleCallTool = async (param: ToolCallParam) => {
     );
   }
 };
+
+/**
+ * Ask every tool with background work in flight to stop what the given run started
+ */
+export const handleCancelTools = async (runId: string) => {
+  const cancellable = Array.from(toolsMap.values()).filter((tool) => 'cancel' in tool);
+  await Promise.all(
+    cancellable.map((tool: any) =>
+      tool.cancel(runId).catch((error: unknown) => {
+        console.warn(`Failed to cancel tool ${tool.name}:`, error);
+      }),
+    ),
+  );
+};
@@ -1,29 +1,66 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { createErrorResponse, ToolContext, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from './base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
+import {
+  applyTodoEdit,
+  blockingDependencies,
+  createsDependencyCycle,
+  getTodos,
+  saveTodos,
+  startedDependents,
+  TodoEdit,
+  TodoItem,
+} from '@/common/todos';
 
-interface TodoItem {
-  id: string;
-  title: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  created_at: string;
-  updated_at: string;
-  depends_on?: string[];
-  notes?: string;
+// Serializes read-modify-write cycles so concurrent calls do not drop each other's changes
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateTodos<T>(
+  conversationId: string | undefined,
+  update: (todos: TodoItem[]) => T | Promise<T>,
+): Promise<T> {
+  const run = pendingWrite.then(async () => {
+    const todos = await getTodos(conversationId);
+    const result = await update(todos);
+    await saveTodos(conversationId, todos);
+    return result;
+  });
+  pendingWrite = run.catch(() => undefined);
+  return run;
 }
 
-// In-memory storage for TODO items (persisted per session)
-const todoStorage = new Map<string, TodoItem>();
+/**
+ * Apply an edit made in the side panel, in turn with the tools' own writes
+ */
+export function editTodos(
+  conversationId: string | undefined,
+  edit: TodoEdit,
+): Promise<string | undefined> {
+  return updateTodos(conversationId, (todos) => applyTodoEdit(todos, edit));
+}
+
+function blockedError(todo: TodoItem, blockers: TodoItem[]): ToolResult {
+  const names = blockers.map((dep) => `"${dep.title}" (${dep.id}, ${dep.status})`).join(', ');
+  return createErrorResponse(
+    `TODO task "${todo.title}" is blocked until these tasks are completed: ${names}`,
+  );
+}
+
+function unknownDependencies(dependsOn: string[], todos: TodoItem[]): string[] {
+  return dependsOn.filter((id) => !todos.some((t) => t.id === id));
+}
 
 class TodoCreateTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.TASK.TODO_CREATE;
 
-  async execute(args: {
-    title: string;
-    priority?: string;
-    depends_on?: string[];
-  }): Promise<ToolResult> {
+  async execute(
+    args: {
+      title: string;
+      priority?: string;
+      depends_on?: string[];
+    },
+    context?: ToolContext,
+  ): Promise<ToolResult> {
     const { title, priority = 'medium', depends_on = [] } = args;
 
     const id = `todo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -39,7 +76,14 @@ class TodoCreateTool extends BaseBrowserToolExecutor {
       depends_on,
     };
 
-    todoStorage.set(id, todo);
+    const unknown = await updateTodos(context?.conversationId, (todos) => {
+      const missing = unknownDependencies(depends_on, todos);
+      if (missing.length === 0) todos.push(todo);
+      return missing;
+    });
+    if (unknown.length > 0) {
+      return createErrorResponse(`Unknown TODO task ids in depends_on: ${unknown.join(', ')}`);
+    }
 
     return {
       content: [
@@ -60,10 +104,14 @@ class TodoCreateTool extends BaseBrowserToolExecutor {
 class TodoListTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.TASK.TODO_LIST;
 
-  async execute(args: { status?: string; priority?: string } = {}): Promise<ToolResult> {
+  async execute(
+    args: { status?: string; priority?: string } = {},
+    context?: ToolContext,
+  ): Promise<ToolResult> {
     const { status, priority } = args;
 
-    let todos = Array.from(todoStorage.values());
+    const allTodos = await getTodos(context?.conversationId);
+    let todos = allTodos;
 
     if (status) {
       todos = todos.filter((todo) => todo.status === status);
@@ -73,14 +121,7 @@ class TodoListTool extends BaseBrowserToolExecutor {
       todos = todos.filter((todo) => todo.priority === priority);
     }
 
-    // Sort by priority (urgent > high > medium > low) then by creation time
-    const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
-    todos.sort((a, b) => {
-      const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-      if (priorityDiff !== 0) return priorityDiff;
-      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-    });
-
+    // Keep the list order, which the user may have arranged by hand
     return {
       content: [
         {
@@ -88,7 +129,10 @@ class TodoListTool extends BaseBrowserToolExecutor {
           text: JSON.stringify({
             success: true,
             message: `Found ${todos.length} TODO items`,
-            todos,
+            todos: todos.map((todo) => ({
+              ...todo,
+              blocked_by: blockingDependencies(todo, allTodos).map((dep) => dep.id),
+            })),
           }),
         },
       ],
@@ -100,27 +144,52 @@ class TodoListTool extends BaseBrowserToolExecutor {
 class TodoUpdateTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.TASK.TODO_UPDATE;
 
-  async execute(args: {
-    id: string;
-    title?: string;
-    status?: string;
-    priority?: string;
-    notes?: string;
-  }): Promise<ToolResult> {
-    const { id, title, status, priority, notes } = args;
-
-    const todo = todoStorage.get(id);
-    if (!todo) {
-      return createErrorResponse(`TODO task with id "${id}" not found`);
-    }
+  async execute(
+    args: {
+      id: string;
+      title?: string;
+      status?: string;
+      priority?: string;
+      notes?: string;
+      depends_on?: string[];
+    },
+    context?: ToolContext,
+  ): Promise<ToolResult> {
+    const { id, title, status, priority, notes, depends_on } = args;
 
-    if (title !== undefined) todo.title = title;
-    if (status !== undefined) todo.status = status as TodoItem['status'];
-    if (priority !== undefined) todo.priority = priority as TodoItem['priority'];
-    if (notes !== undefined) todo.notes = notes;
+    const outcome = await updateTodos(context?.conversationId, (todos) => {
+      const todo = todos.find((t) => t.id === id);
+      if (!todo) {
+        return createErrorResponse(`TODO task with id "${id}" not found`);
+      }
 
-    todo.updated_at = new Date().toISOString();
-    todoStorage.set(id, todo);
+      if (depends_on !== undefined) {
+        const unknown = unknownDependencies(depends_on, todos);
+        if (unknown.length > 0) {
+          return createErrorResponse(`Unknown TODO task ids in depends_on: ${unknown.join(', ')}`);
+        }
+        if (createsDependencyCycle(id, depends_on, todos)) {
+          return createErrorResponse(`depends_on would create a dependency cycle for "${id}"`);
+        }
+      }
+      const dependsOn = depends_on ?? todo.depends_on;
+      if (status === 'in_progress' || status === 'completed') {
+        const blockers = blockingDependencies({ ...todo, depends_on: dependsOn }, todos);
+        if (blockers.length > 0) return blockedError(todo, blockers);
+      }
+
+      const reopened =
+        todo.status === 'completed' && status !== undefined && status !== 'completed';
+      if (title !== undefined) todo.title = title;
+      if (status !== undefined) todo.status = status as TodoItem['status'];
+      if (priority !== undefined) todo.priority = priority as TodoItem['priority'];
+      if (notes !== undefined) todo.notes = notes;
+      if (depends_on !== undefined) todo.depends_on = depends_on;
+      todo.updated_at = new Date().toISOString();
+      return { todo, dependents: reopened ? startedDependents(todo, todos) : [] };
+    });
+    if ('isError' in outcome) return outcome;
+    const { todo, dependents } = outcome;
 
     return {
       content: [
@@ -130,6 +199,11 @@ class TodoUpdateTool extends BaseBrowserToolExecutor {
             success: true,
             message: `Updated TODO task: "${todo.title}"`,
             todo,
+            ...(dependents.length > 0 && {
+              warning: `These tasks depend on "${todo.title}" but are already started or completed: ${dependents
+                .map((dep) => `"${dep.title}" (${dep.id}, ${dep.status})`)
+                .join(', ')}. Review their status.`,
+            }),
           }),
         },
       ],
@@ -141,21 +215,26 @@ class TodoUpdateTool extends BaseBrowserToolExecutor {
 class TodoCompleteTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.TASK.TODO_COMPLETE;
 
-  async execute(args: { id: string; notes?: string }): Promise<ToolResult> {
+  async execute(args: { id: string; notes?: string }, context?: ToolContext): Promise<ToolResult> {
     const { id, notes } = args;
 
-    const todo = todoStorage.get(id);
-    if (!todo) {
-      return createErrorResponse(`TODO task with id "${id}" not found`);
-    }
-
-    todo.status = 'completed';
-    if (notes) {
-      todo.notes = (todo.notes ? todo.notes + '\n' : '') + `Completed: ${notes}`;
-    }
-    todo.updated_at = new Date().toISOString();
+    const outcome = await updateTodos(context?.conversationId, (todos) => {
+      const todo = todos.find((t) => t.id === id);
+      if (!todo) {
+        return createErrorResponse(`TODO task with id "${id}" not found`);
+      }
+      const blockers = blockingDependencies(todo, todos);
+      if (blockers.length > 0) return blockedError(todo, blockers);
 
-    todoStorage.set(id, todo);
+      todo.status = 'completed';
+      if (notes) {
+        todo.notes = (todo.notes ? todo.notes + '\n' : '') + `Completed: ${notes}`;
+      }
+      todo.updated_at = new Date().toISOString();
+      return todo;
+    });
+    if ('isError' in outcome) return outcome;
+    const todo = outcome;
 
     return {
       content: [
@@ -1,4 +1,5 @@
 import { SemanticSimilarityEngine } from '@/utils/semantic-similarity-engine';
+import { extractPdfText } from '@/utils/pdf-text';
 import {
   MessageTarget,
   SendMessageType,
@@ -40,6 +41,12 @@ interface SimilarityEngineStatusMessage extends OffscreenMessage {
   type: 'similarityEngineStatus';
 }
 
+interface ExtractPdfTextMessage extends OffscreenMessage {
+  type: 'extractPdfText';
+  // Base64 encoded file contents
+  data: string;
+}
+
 type MessageResponse = {
   result?: string;
   error?: string;
@@ -49,6 +56,7 @@ type MessageResponse = {
   embeddings?: number[][];
   isInitialized?: boolean;
   currentConfig?: any;
+  text?: string;
 };
 
 // Listen for messages from the extension
@@ -126,6 +134,15 @@ chrome.runtime.onMessage.addListener(
           break;
         }
 
+        case OFFSCREEN_MESSAGE_TYPES.EXTRACT_PDF_TEXT: {
+          const pdfMsg = message as ExtractPdfTextMessage;
+          const bytes = Uint8Array.from(atob(pdfMsg.data), (char) => char.charCodeAt(0));
+          extractPdfText(bytes)
+            .then((text) => sendResponse({ success: true, text }))
+            .catch((error) => sendResponse({ success: false, error: error.message }));
+          break;
+        }
+
         default:
           sendResponse({ error: `Unknown message type: ${message.type}` });
       }
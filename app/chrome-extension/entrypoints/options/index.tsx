@@ -1,5 +1,28 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { ApiKeyStatus, ApiKeyVault } from '@/services/api-key-vault';
+import {
+  DEFAULT_SPEND_LIMITS,
+  getPriceOverrides,
+  getSpendLimits,
+  MODEL_PRICES,
+  ModelPrice,
+  savePriceOverrides,
+  saveSpendLimits,
+  SpendLimits,
+} from '@/services/usage';
+import {
+  DEFAULT_TOOL_POLICIES,
+  getSiteToolPolicies,
+  removeSiteToolPolicy,
+  SiteToolPolicies,
+} from '@/utils/tool-policy';
+import {
+  addTrustedInputSite,
+  getTrustedInputSites,
+  removeTrustedInputSite,
+  toOrigin,
+} from '@/utils/trusted-input';
 
 const TOOL_SLOTS = [
   'tool_shortcut_1',
@@ -12,6 +35,15 @@ const TOOL_SLOTS = [
 function OptionsApp() {
   const [mappings, setMappings] = useState<Record<string, { toolName: string; args?: any }>>({});
   const [availableTools, setAvailableTools] = useState<string[]>([]);
+  const [sitePolicies, setSitePolicies] = useState<SiteToolPolicies>({});
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [spendLimits, setSpendLimits] = useState<SpendLimits>(DEFAULT_SPEND_LIMITS);
+  const [priceOverrides, setPriceOverrides] = useState<Record<string, ModelPrice>>({});
+  const [newPriceModel, setNewPriceModel] = useState('');
+  const [trustedSites, setTrustedSites] = useState<string[]>([]);
+  const [newTrustedSite, setNewTrustedSite] = useState('');
 
   useEffect(() => {
     // Load existing mappings
@@ -24,6 +56,11 @@ function OptionsApp() {
         initial[s] = stored[k] || { toolName: '' };
       });
       setMappings(initial);
+      setSitePolicies(await getSiteToolPolicies());
+      setApiKeyStatus(await ApiKeyVault.getStatus());
+      setSpendLimits(await getSpendLimits());
+      setPriceOverrides(await getPriceOverrides());
+      setTrustedSites(await getTrustedInputSites());
 
       // Derive available tools from shared schema if available
       try {
@@ -37,6 +74,11 @@ function OptionsApp() {
     })();
   }, []);
 
+  useEffect(
+    () => ApiKeyVault.subscribe(async () => setApiKeyStatus(await ApiKeyVault.getStatus())),
+    [],
+  );
+
   const updateSlot = (slot: string, toolName: string) => {
     setMappings((m) => ({ ...m, [slot]: { ...m[slot], toolName } }));
   };
@@ -50,9 +92,195 @@ function OptionsApp() {
     alert('Saved');
   };
 
+  const removePolicy = async (origin: string, toolName: string) => {
+    await removeSiteToolPolicy(origin, toolName);
+    setSitePolicies(await getSiteToolPolicies());
+  };
+
+  const addTrustedSite = async () => {
+    const origin = toOrigin(newTrustedSite);
+    if (!origin) {
+      alert('Enter a site such as example.com or https://example.com');
+      return;
+    }
+    await addTrustedInputSite(origin);
+    setTrustedSites(await getTrustedInputSites());
+    setNewTrustedSite('');
+  };
+
+  const removeTrustedSite = async (origin: string) => {
+    await removeTrustedInputSite(origin);
+    setTrustedSites(await getTrustedInputSites());
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const parsed = Number(value);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    setPriceOverrides((prev) => ({
+      ...prev,
+      [model]: {
+        ...(prev[model] || MODEL_PRICES[model] || { input: 0, output: 0 }),
+        [field]: parsed,
+      },
+    }));
+  };
+
+  const addPriceModel = () => {
+    const model = newPriceModel.trim();
+    if (!model) return;
+    setPriceOverrides((prev) => ({ ...prev, [model]: prev[model] || { input: 0, output: 0 } }));
+    setNewPriceModel('');
+  };
+
+  const removePriceOverride = (model: string) => {
+    setPriceOverrides(({ [model]: _removed, ...rest }) => rest);
+  };
+
+  const saveSpending = async () => {
+    await saveSpendLimits(spendLimits);
+    await savePriceOverrides(priceOverrides);
+    alert('Saved');
+  };
+
+  const unlockVault = async () => {
+    setUnlockError('');
+    if (await ApiKeyVault.unlock(passphrase)) {
+      setPassphrase('');
+    } else {
+      setUnlockError('Wrong passphrase');
+    }
+  };
+
   return (
     <div style={{ padding: 16, fontFamily: 'system-ui, sans-serif', width: 600 }}>
-      <h2>Keyboard shortcut tool mappings</h2>
+      <h2>API key</h2>
+      {!apiKeyStatus?.hasKey ? (
+        <p style={{ color: '#666' }}>No API key saved. Add one in the side panel settings.</p>
+      ) : !apiKeyStatus.encrypted ? (
+        <p>
+          Stored unencrypted in {apiKeyStatus.area === 'sync' ? 'synced' : 'local'} storage. Enable
+          passphrase encryption in the side panel settings.
+        </p>
+      ) : apiKeyStatus.locked ? (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <span>Locked.</span>
+          <input
+            type="password"
+            placeholder="Vault passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlockVault()}
+          />
+          <button onClick={unlockVault} disabled={!passphrase}>
+            Unlock
+          </button>
+          {unlockError && <span style={{ color: '#c00' }}>{unlockError}</span>}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <span>Unlocked until the browser closes.</span>
+          <button onClick={() => ApiKeyVault.lock()}>Lock now</button>
+        </div>
+      )}
+
+      <h2 style={{ marginTop: 32 }}>Spending</h2>
+      <p>
+        Caps apply to the estimated cost of requests from this browser. Leave a cap at 0 to disable
+        it.
+      </p>
+      <div style={{ display: 'flex', gap: 16, alignItems: 'center', flexWrap: 'wrap' }}>
+        <label>
+          Daily cap (USD){' '}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            style={{ width: 80 }}
+            value={spendLimits.daily}
+            onChange={(e) => setSpendLimits((l) => ({ ...l, daily: Number(e.target.value) || 0 }))}
+          />
+        </label>
+        <label>
+          Monthly cap (USD){' '}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            style={{ width: 80 }}
+            value={spendLimits.monthly}
+            onChange={(e) =>
+              setSpendLimits((l) => ({ ...l, monthly: Number(e.target.value) || 0 }))
+            }
+          />
+        </label>
+        <label>
+          When exceeded{' '}
+          <select
+            value={spendLimits.action}
+            onChange={(e) =>
+              setSpendLimits((l) => ({ ...l, action: e.target.value as SpendLimits['action'] }))
+            }
+          >
+            <option value="confirm">Ask before each request</option>
+            <option value="block">Block new requests</option>
+          </select>
+        </label>
+      </div>
+      <h3 style={{ marginTop: 16 }}>Model prices (USD per million tokens)</h3>
+      <div style={{ display: 'grid', gap: 6 }}>
+        {Object.keys({ ...MODEL_PRICES, ...priceOverrides }).map((model) => {
+          const price = priceOverrides[model] || MODEL_PRICES[model];
+          return (
+            <div key={model} style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <div style={{ width: 220 }}>{model}</div>
+              <label>
+                in{' '}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  style={{ width: 70 }}
+                  value={price.input}
+                  onChange={(e) => updatePrice(model, 'input', e.target.value)}
+                />
+              </label>
+              <label>
+                out{' '}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  style={{ width: 70 }}
+                  value={price.output}
+                  onChange={(e) => updatePrice(model, 'output', e.target.value)}
+                />
+              </label>
+              {priceOverrides[model] && (
+                <button onClick={() => removePriceOverride(model)}>
+                  {MODEL_PRICES[model] ? 'Reset' : 'Remove'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <input
+            placeholder="other model id"
+            style={{ width: 220 }}
+            value={newPriceModel}
+            onChange={(e) => setNewPriceModel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPriceModel()}
+          />
+          <button onClick={addPriceModel} disabled={!newPriceModel.trim()}>
+            Add model
+          </button>
+        </div>
+      </div>
+      <div style={{ marginTop: 16 }}>
+        <button onClick={saveSpending}>Save spending settings</button>
+      </div>
+
+      <h2 style={{ marginTop: 32 }}>Keyboard shortcut tool mappings</h2>
       <p>
         Assign a tool name to each shortcut slot. Then go to Chrome Extensions &gt; Keyboard
         shortcuts to bind keys.
@@ -94,6 +322,63 @@ function OptionsApp() {
       <div style={{ marginTop: 16 }}>
         <button onClick={save}>Save mappings</button>
       </div>
+
+      <h2 style={{ marginTop: 32 }}>Tool approvals</h2>
+      <p>
+        These tools ask for approval in the side panel before they run:{' '}
+        {Object.keys(DEFAULT_TOOL_POLICIES).join(', ')}. Choosing &quot;Always for this site&quot;
+        on an approval card saves a per-site rule below.
+      </p>
+      {Object.keys(sitePolicies).length === 0 ? (
+        <p style={{ color: '#666' }}>No per-site rules saved.</p>
+      ) : (
+        <div style={{ display: 'grid', gap: 8 }}>
+          {Object.entries(sitePolicies).flatMap(([origin, policies]) =>
+            Object.entries(policies).map(([toolName, policy]) => (
+              <div
+                key={`${origin}:${toolName}`}
+                style={{ display: 'flex', gap: 8, alignItems: 'center' }}
+              >
+                <div style={{ flex: 1 }}>{origin}</div>
+                <div style={{ width: 200 }}>{toolName}</div>
+                <div style={{ width: 60 }}>{policy}</div>
+                <button onClick={() => removePolicy(origin, toolName)}>Remove</button>
+              </div>
+            )),
+          )}
+        </div>
+      )}
+
+      <h2 style={{ marginTop: 32 }}>Trusted input</h2>
+      <p>
+        Click, fill, keyboard, hover, drag and scroll tools dispatch synthetic events. Hover, drag
+        and scroll switch to real input through the Chrome debugger when a page does not react;
+        clicks and typing are never sent twice, so the assistant retries them with real input when
+        needed. On the sites below they always use the debugger. Chrome shows a debugging banner
+        while it is attached.
+      </p>
+      {trustedSites.length === 0 ? (
+        <p style={{ color: '#666' }}>No sites listed.</p>
+      ) : (
+        <div style={{ display: 'grid', gap: 8 }}>
+          {trustedSites.map((origin) => (
+            <div key={origin} style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <div style={{ flex: 1 }}>{origin}</div>
+              <button onClick={() => removeTrustedSite(origin)}>Remove</button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <input
+          placeholder="example.com"
+          style={{ flex: 1 }}
+          value={newTrustedSite}
+          onChange={(e) => setNewTrustedSite(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTrustedSite()}
+        />
+        <button onClick={addTrustedSite}>Add site</button>
+      </div>
     </div>
   );
 }
@@ -23,18 +23,126 @@ import {
   DollarSign,
   Film,
   CheckSquare,
+  ShieldAlert,
+  Lock,
+  SlidersHorizontal,
+  BarChart3,
+  AtSign,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { cn } from '../../lib/utils';
-import { GrokService } from '../../services/grok';
+import {
+  DEFAULT_AGENT_SETTINGS,
+  DEFAULT_CONTEXT_CAPTURE,
+  GrokService,
+  MAX_ATTACHED_TABS,
+} from '../../services/grok';
+import {
+  ATTACHMENT_ACCEPT,
+  buildAttachmentContent,
+  MAX_ATTACHMENTS,
+  readAttachment,
+} from '../../services/attachments';
+import { ApiKeyStatus, ApiKeyStorageArea, ApiKeyVault } from '../../services/api-key-vault';
+import {
+  DEFAULT_PROVIDER,
+  getProviderConfig,
+  guessVisionSupport,
+  ModelInfo,
+  PROVIDER_LABELS,
+  PROVIDER_PRESETS,
+  ProviderConfig,
+  providerRequiresApiKey,
+  ProviderType,
+} from '../../services/providers';
 import { PromptService } from '../../services/prompts';
-import type { GrokTool } from '../../types/grok';
+import {
+  checkSpendLimits,
+  computeCost,
+  formatCost,
+  getModelPrice,
+  getPriceOverrides,
+  getSpendLimits,
+  recordUsage,
+  TokenUsage,
+} from '../../services/usage';
+import type {
+  AgentSettings,
+  BrowserContext,
+  ChatAttachment,
+  ContextCaptureSettings,
+  ConversationSummary,
+  OpenTab,
+  GrokTool,
+  GrokToolCall,
+  LiveSearchMode,
+  PlanStep,
+  ResumeCheckpoint,
+  RetryNotice,
+  ToolCallReview,
+} from '../../types/grok';
+import { SIDEPANEL_MESSAGE_TYPES } from '../../common/message-types';
+import type { CitationSource } from '../../common/citations';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../../utils/tool-policy';
+import { SecurityView } from './components/SecurityView';
+import { StepReviewCard } from './components/StepReviewCard';
+import { ConversationSettings } from './components/ConversationSettings';
+import { PlanChecklist } from './components/PlanChecklist';
+import { ReasoningSection } from './components/ReasoningSection';
+import { ApiErrorBanner } from './components/ApiErrorBanner';
+import { UsageView } from './components/UsageView';
+import { CitationList } from './components/CitationList';
+import { citationIdFromHref, linkCitations, SourceChip } from './components/SourceChip';
+import { ContextCaptureToggles } from './components/ContextCaptureToggles';
+import { AttachmentChip } from './components/AttachmentChip';
+import { TodoPanel } from './components/TodoPanel';
+import { BACKGROUND_MESSAGE_TYPES } from '../../common/message-types';
+import {
+  applyTodoEdit,
+  getTodos,
+  saveTodos,
+  TodoEdit,
+  TodoItem,
+  todoStorageKey,
+} from '../../common/todos';
+import {
+  clearAttachmentData,
+  deleteAttachmentData,
+  restoreAttachmentData,
+  storeAttachmentData,
+} from '../../common/attachment-store';
+import {
+  filterTabs,
+  stripTabMention,
+  TabChip,
+  tabMentionQuery,
+  TabPicker,
+} from './components/TabAttachments';
 
 type ChatMessage = {
   role: 'user' | 'assistant' | 'system' | 'function';
   content: string;
   name?: string;
+  cancelled?: boolean;
+  // Reasoning trace of the run that produced this reply, from reasoning models
+  reasoning?: string;
+  reasoningTokens?: number;
+  // Tokens and estimated cost of the run that produced this reply
+  usage?: TokenUsage;
+  cost?: number;
+  // No price is known for the model, so cost only covers Live Search
+  costUnknown?: boolean;
+  // Live Search source URLs
+  citations?: string[];
+  // Tool result sources cited inline with [src:<id>]
+  sources?: CitationSource[];
+  // Parts of the active tab that were attached to this user message
+  attachedContext?: string[];
+  // Tabs attached with the @tab picker
+  attachedTabs?: OpenTab[];
+  // Local files attached in the composer
+  attachments?: ChatAttachment[];
   automation?: {
     isAutomation: true;
     success?: boolean;
@@ -97,24 +205,74 @@ const promptTypes: PromptType[] = [
   },
 ];
 
+// Shown while a failed API request waits for its automatic retry
+const RETRY_REASONS: Partial<Record<RetryNotice['kind'], string>> = {
+  rate_limit: 'Rate limited',
+  server: 'Server error',
+  network: 'Network error',
+};
+
 function App() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [hasKey, setHasKey] = useState(false);
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus>({
+    hasKey: false,
+    encrypted: false,
+    locked: false,
+    area: 'sync',
+  });
+  const [keyStorageArea, setKeyStorageArea] = useState<ApiKeyStorageArea>('sync');
+  const [encryptApiKey, setEncryptApiKey] = useState(false);
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [selectedModel, setSelectedModel] = useState<string>('grok-4-fast-reasoning');
-  const [liveSearchMode, setLiveSearchMode] = useState<'auto' | 'on' | 'off'>('auto');
+  const [provider, setProvider] = useState<ProviderConfig>(DEFAULT_PROVIDER);
+  // Provider edited in the settings dialog; replaces provider only on Save
+  const [providerDraft, setProviderDraft] = useState<ProviderConfig>(DEFAULT_PROVIDER);
+  // Comma-separated model ids, parsed on save
+  const [modelsInput, setModelsInput] = useState('');
+  const [modelCatalog, setModelCatalog] = useState<ModelInfo[]>([]);
+  const [modelCatalogNote, setModelCatalogNote] = useState<string | null>(null);
+  const [loadingModels, setLoadingModels] = useState(false);
+  const [liveSearchMode, setLiveSearchMode] = useState<LiveSearchMode>('auto');
+  const [contextCapture, setContextCapture] =
+    useState<ContextCaptureSettings>(DEFAULT_CONTEXT_CAPTURE);
+  const [attachedTabs, setAttachedTabs] = useState<OpenTab[]>([]);
+  const [openTabs, setOpenTabs] = useState<OpenTab[]>([]);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [readingFiles, setReadingFiles] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const recognitionRef = useRef<any>(null);
+  // Model chosen when the settings dialog opened, restored when it is cancelled
+  const settingsModelRef = useRef('');
   const [loading, setLoading] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [selectedPrompt, setSelectedPrompt] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Quota and key errors get a banner of their own instead of the raw API response
+  const [apiErrorKind, setApiErrorKind] = useState<'quota' | 'auth' | null>(null);
+  const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
+  // A run that failed after completing tool steps, with the history it ran against
+  const [failedRun, setFailedRun] = useState<{
+    history: ChatMessage[];
+    checkpoint: ResumeCheckpoint;
+  } | null>(null);
   const [thinkingData, setThinkingData] = useState<
     { name: string; description: string; result?: any }[]
   >([]);
-  const [todoItems, setTodoItems] = useState<any[]>([]);
+  const [todoItems, setTodoItems] = useState<TodoItem[]>([]);
+  const [planSteps, setPlanSteps] = useState<PlanStep[]>([]);
+  const [streamingText, setStreamingText] = useState('');
+  const [streamingReasoning, setStreamingReasoning] = useState('');
+  const [pendingApproval, setPendingApproval] = useState<ToolApprovalRequest | null>(null);
+  const approvalResponderRef = useRef<((decision: ToolApprovalDecision) => void) | null>(null);
+  // Step mode: tool calls of the current model turn waiting for review
+  const [pendingReview, setPendingReview] = useState<GrokToolCall[] | null>(null);
+  const reviewResponderRef = useRef<((reviews: ToolCallReview[]) => void) | null>(null);
   const [expandedMessageIds, setExpandedMessageIds] = useState<Record<number, boolean>>({});
 
   const MAX_RENDER_CHARS = 1200; // collapse threshold
@@ -141,8 +299,14 @@ function App() {
 
   // Conversation history state
   const [conversationId, setConversationId] = useState<string>('');
+  // Rolling summary of earlier turns, stored with the conversation
+  const [conversationSummary, setConversationSummary] = useState<ConversationSummary | undefined>();
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>(DEFAULT_AGENT_SETTINGS);
+  const [showConversationSettings, setShowConversationSettings] = useState(false);
   const [conversationHistory, setConversationHistory] = useState<ConversationMetadata[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
   const [needsFork, setNeedsFork] = useState(false);
 
   // Usage tracking
@@ -152,8 +316,12 @@ function App() {
   const [sessionCompletionTokens, setSessionCompletionTokens] = useState<number>(0);
   const [totalPromptTokens, setTotalPromptTokens] = useState<number>(0);
   const [totalCompletionTokens, setTotalCompletionTokens] = useState<number>(0);
+  const conversationCost = messages.reduce((sum, message) => sum + (message.cost || 0), 0);
+  const conversationCostUnknown = messages.some((message) => message.costUnknown);
 
   const grokService = useRef(new GrokService());
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const promptService = useRef(new PromptService());
   const listRef = useRef<HTMLDivElement>(null);
 
@@ -169,23 +337,12 @@ function App() {
         const stored = await chrome.storage?.local.get([
           'grok_model',
           'live_search_mode',
+          'context_capture',
           'total_prompt_tokens',
           'total_completion_tokens',
         ]);
-        // Prefer sync for api key, fallback to local for backward compatibility
-        let k = '';
-        try {
-          const syncStored = await chrome.storage?.sync.get(['grok_api_key']);
-          k = syncStored?.grok_api_key || '';
-        } catch (e) {
-          console.warn('Failed to read grok_api_key from sync storage', e);
-        }
-        if (!k) {
-          const localKRes = await chrome.storage?.local.get(['grok_api_key']);
-          k = localKRes?.grok_api_key || '';
-        }
-        setApiKey(k);
-        setHasKey(!!k);
+        await refreshApiKeyStatus();
+        setProvider(await getProviderConfig());
 
         // model (sync preferred, fallback to local)
         try {
@@ -198,7 +355,8 @@ function App() {
         }
 
         // live search mode
-        setLiveSearchMode((stored?.live_search_mode as any) || 'auto');
+        setLiveSearchMode(stored?.live_search_mode || 'auto');
+        setContextCapture({ ...DEFAULT_CONTEXT_CAPTURE, ...stored?.context_capture });
         if (stored?.total_prompt_tokens) {
           setTotalPromptTokens(stored.total_prompt_tokens);
         }
@@ -219,21 +377,57 @@ function App() {
     })();
   }, []);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Keep the key state current when the vault is locked or unlocked elsewhere (e.g. options page)
+  useEffect(() => ApiKeyVault.subscribe(() => refreshApiKeyStatus()), []);
+
+  // Show approval cards for tool calls the background policy layer marked as "ask"
+  useEffect(() => {
+    const listener = (
+      message: any,
+      _sender: chrome.runtime.MessageSender,
+      sendResponse: (response: any) => void,
+    ) => {
+      if (message?.type !== SIDEPANEL_MESSAGE_TYPES.TOOL_APPROVAL_REQUEST) return;
+      // A newer request supersedes any card still waiting for an answer
+      approvalResponderRef.current?.('deny');
+      approvalResponderRef.current = (decision) => sendResponse({ decision });
+      setPendingApproval(message.request);
+      return true;
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  // Auto-scroll to bottom when new messages or streamed tokens arrive
   useEffect(() => {
     listRef.current?.scrollTo(0, listRef.current.scrollHeight);
-  }, [messages]);
+  }, [messages, streamingText, pendingApproval, pendingReview]);
 
   // Conversation storage functions
   const generateConversationId = () => {
     return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   };
 
-  const saveConversation = async (id: string, messages: ChatMessage[]) => {
+  const saveConversation = async (
+    id: string,
+    messages: ChatMessage[],
+    summary?: ConversationSummary,
+    settings?: AgentSettings,
+  ) => {
     try {
+      // File data is stored on its own, see attachment-store
+      const storedMessages = await Promise.all(
+        messages.map(async (message) =>
+          message.attachments
+            ? { ...message, attachments: await storeAttachmentData(message.attachments) }
+            : message,
+        ),
+      );
       const conversation = {
         id,
-        messages,
+        messages: storedMessages,
+        summary,
+        settings,
         title: messages[0]?.content?.substring(0, 50) || 'New Conversation',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -246,10 +440,25 @@ function App() {
     }
   };
 
-  const loadConversation = async (id: string): Promise<ChatMessage[] | null> => {
+  const loadConversation = async (
+    id: string,
+  ): Promise<{
+    messages: ChatMessage[];
+    summary?: ConversationSummary;
+    settings?: AgentSettings;
+  } | null> => {
     try {
       const result = await chrome.storage.local.get([`conversation_${id}`]);
-      return result[`conversation_${id}`]?.messages || null;
+      const conversation = result[`conversation_${id}`];
+      if (!conversation) return null;
+      const messages: ChatMessage[] = await Promise.all(
+        conversation.messages.map(async (message: ChatMessage) =>
+          message.attachments
+            ? { ...message, attachments: await restoreAttachmentData(message.attachments) }
+            : message,
+        ),
+      );
+      return { ...conversation, messages };
     } catch (error) {
       console.error('Failed to load conversation:', error);
       return null;
@@ -286,7 +495,22 @@ function App() {
 
   const deleteConversation = async (id: string): Promise<boolean> => {
     try {
-      await chrome.storage.local.remove([`conversation_${id}`]);
+      const key = `conversation_${id}`;
+      const allKeys = await chrome.storage.local.get(null);
+      // Forked conversations share attachments with the one they came from
+      const attachmentIds = (conversationKey: string): string[] =>
+        (allKeys[conversationKey]?.messages || []).flatMap((message: ChatMessage) =>
+          (message.attachments || []).map((attachment) => attachment.id),
+        );
+      const stillUsed = new Set(
+        Object.keys(allKeys)
+          .filter((other) => other.startsWith('conversation_') && other !== key)
+          .flatMap(attachmentIds),
+      );
+      await chrome.storage.local.remove([key, todoStorageKey(id)]);
+      await deleteAttachmentData(
+        attachmentIds(key).filter((attachmentId) => !stillUsed.has(attachmentId)),
+      );
       return true;
     } catch (error) {
       console.error('Failed to delete conversation:', error);
@@ -298,7 +522,9 @@ function App() {
     try {
       const allKeys = await chrome.storage.local.get(null);
       const convKeys = Object.keys(allKeys).filter((key) => key.startsWith('conversation_'));
-      await chrome.storage.local.remove(convKeys);
+      const todoKeys = convKeys.map((key) => todoStorageKey(key.slice('conversation_'.length)));
+      await chrome.storage.local.remove([...convKeys, ...todoKeys]);
+      await clearAttachmentData();
       return true;
     } catch (error) {
       console.error('Failed to clear conversations:', error);
@@ -311,6 +537,10 @@ function App() {
     const newId = generateConversationId();
     setConversationId(newId);
     setMessages([]);
+    setConversationSummary(undefined);
+    setAgentSettings(DEFAULT_AGENT_SETTINGS);
+    setPlanSteps([]);
+    setFailedRun(null);
     setInput('');
     setShowHistory(false);
     setNeedsFork(false);
@@ -334,7 +564,10 @@ function App() {
     const conversation = await loadConversation(id);
     if (conversation) {
       setConversationId(id);
-      setMessages(conversation);
+      setMessages(conversation.messages);
+      setConversationSummary(conversation.summary);
+      setAgentSettings({ ...DEFAULT_AGENT_SETTINGS, ...conversation.settings });
+      setFailedRun(null);
       setNeedsFork(true); // Mark as needing fork since we're viewing archived chat
       setShowHistory(false);
     }
@@ -361,54 +594,411 @@ function App() {
     }
   }
 
+  // Local endpoints often take no key at all
+  const canSend = hasKey || !providerRequiresApiKey(provider);
+  const modelOptions = modelsInput
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+  // Listed models first, then ids entered by hand, then the current choice if it is in neither
+  const pickerModels = Array.from(
+    new Set([...modelCatalog.map((m) => m.id), ...modelOptions, selectedModel].filter(Boolean)),
+  );
+  const selectedModelInfo = modelCatalog.find((m) => m.id === selectedModel);
+  const tabQuery = tabMentionQuery(input);
+  const tabMatches = tabQuery === null ? [] : filterTabs(openTabs, tabQuery);
+  const selectedModelSupportsVision =
+    selectedModelInfo?.vision ?? guessVisionSupport(selectedModel);
+
+  function describeModel(modelId: string): string {
+    const info = modelCatalog.find((m) => m.id === modelId);
+    if (!info) return modelId;
+    const capabilities = [
+      info.vision && 'vision',
+      info.tools ? 'tools' : 'no tools',
+      info.contextLength && `${Math.round(info.contextLength / 1000)}k ctx`,
+    ].filter(Boolean);
+    return `${modelId} (${capabilities.join(', ')})`;
+  }
+
   // Settings handlers
+  async function refreshApiKeyStatus() {
+    try {
+      const status = await ApiKeyVault.getStatus();
+      const key = await ApiKeyVault.getApiKey();
+      setApiKeyStatus(status);
+      setApiKey(key || '');
+      setHasKey(!!key);
+    } catch (e) {
+      console.warn('Failed to read API key status', e);
+    }
+  }
+
+  async function refreshModelCatalog(config: ProviderConfig = provider) {
+    setLoadingModels(true);
+    setModelCatalogNote(null);
+    try {
+      const catalog = await grokService.current.listModels(config);
+      setModelCatalog(catalog.models);
+      if (catalog.fromCache) {
+        setModelCatalogNote(
+          `Provider unreachable, showing models cached ${new Date(catalog.fetchedAt).toLocaleString()}`,
+        );
+      }
+    } catch (e: any) {
+      setModelCatalog([]);
+      setModelCatalogNote(`Could not list models: ${e?.message || e}`);
+    } finally {
+      setLoadingModels(false);
+    }
+  }
+
+  function openSettings() {
+    setProviderDraft(provider);
+    settingsModelRef.current = selectedModel;
+    setModelsInput(provider.models.join(', '));
+    refreshModelCatalog();
+    setKeyStorageArea(apiKeyStatus.area);
+    setEncryptApiKey(apiKeyStatus.encrypted);
+    setVaultPassphrase('');
+    setVaultError(null);
+    setIsSettingsOpen(true);
+  }
+
+  // Close the dialog without applying the draft
+  function cancelSettings() {
+    setIsSettingsOpen(false);
+    setSelectedModel(settingsModelRef.current);
+    if (providerDraft !== provider) refreshModelCatalog(provider);
+  }
+
+  function changeProviderType(type: ProviderType) {
+    const preset = PROVIDER_PRESETS[type];
+    setProviderDraft(preset);
+    setModelsInput(preset.models.join(', '));
+    refreshModelCatalog(preset);
+    if (preset.models.length > 0 && !preset.models.includes(selectedModel)) {
+      setSelectedModel(preset.models[0]);
+    }
+  }
+
+  async function unlockVault() {
+    setVaultError(null);
+    if (!(await ApiKeyVault.unlock(vaultPassphrase))) {
+      setVaultError('Wrong passphrase');
+      return;
+    }
+    setVaultPassphrase('');
+    await grokService.current.loadApiKey();
+    await refreshApiKeyStatus();
+  }
+
+  async function lockVault() {
+    await ApiKeyVault.lock();
+    await grokService.current.loadApiKey();
+    await refreshApiKeyStatus();
+    cancelSettings();
+  }
+
   async function saveSettings() {
-    await grokService.current.setApiKey(apiKey);
+    setVaultError(null);
+    // A locked vault's key is unknown here, so leave it untouched
+    if (!apiKeyStatus.locked) {
+      try {
+        await grokService.current.setApiKey(apiKey, {
+          area: keyStorageArea,
+          encrypt: encryptApiKey,
+          passphrase: vaultPassphrase || undefined,
+        });
+      } catch (e: any) {
+        setVaultError(e?.message || 'Failed to save API key');
+        return;
+      }
+    }
+    const providerConfig: ProviderConfig = { ...providerDraft, models: modelOptions };
+    await grokService.current.setProvider(providerConfig);
+    setProvider(providerConfig);
     await grokService.current.setModel(selectedModel);
-    await chrome.storage?.local.set({ live_search_mode: liveSearchMode });
+    await grokService.current.setLiveSearchMode(liveSearchMode);
     await chrome.storage?.sync.set({ grok_model: selectedModel });
-    setHasKey(!!apiKey);
+    setVaultPassphrase('');
+    await refreshApiKeyStatus();
     setIsSettingsOpen(false);
   }
 
+  function respondToApproval(decision: ToolApprovalDecision) {
+    approvalResponderRef.current?.(decision);
+    approvalResponderRef.current = null;
+    setPendingApproval(null);
+  }
+
+  function reviewToolCalls(toolCalls: GrokToolCall[]): Promise<ToolCallReview[]> {
+    return new Promise((resolve) => {
+      reviewResponderRef.current = resolve;
+      setPendingReview(toolCalls);
+    });
+  }
+
+  function submitReview(reviews: ToolCallReview[]) {
+    reviewResponderRef.current?.(reviews);
+    reviewResponderRef.current = null;
+    setPendingReview(null);
+  }
+
+  async function saveAgentSettings(settings: AgentSettings) {
+    setAgentSettings(settings);
+    setShowConversationSettings(false);
+    if (conversationId && messages.length > 0 && !needsFork) {
+      await saveConversation(conversationId, messages, conversationSummary, settings);
+    }
+  }
+
   function cancelRequest() {
-    if (abortController) {
-      abortController.abort();
-      setAbortController(null);
-      setLoading(false);
-      setThinkingData([]);
-      setTodoItems([]); // Clear TODO items on cancellation
+    // handleSend finishes the run and keeps the partial transcript once the abort lands
+    abortController?.abort();
+    if (approvalResponderRef.current) respondToApproval('deny');
+    if (reviewResponderRef.current) submitReview([]);
+  }
+
+  // A run that errors out leaves its current step unfinished
+  function markPlanStepFailed() {
+    setPlanSteps((prev) =>
+      prev.map((step) =>
+        step.status === 'in_progress' ? { ...step, status: 'failed' as const } : step,
+      ),
+    );
+  }
+
+  // Add a run's tokens to the counters and today's spend; returns its estimated cost
+  async function recordRunUsage(
+    usage: TokenUsage,
+  ): Promise<{ cost: number; costUnknown: boolean }> {
+    const price = getModelPrice(selectedModel, provider, await getPriceOverrides());
+    const cost = computeCost(usage, price);
+    setLastPromptTokens(usage.promptTokens);
+    setLastCompletionTokens(usage.completionTokens);
+    setSessionPromptTokens((prev) => prev + usage.promptTokens);
+    setSessionCompletionTokens((prev) => prev + usage.completionTokens);
+
+    try {
+      const stored = await chrome.storage.local.get([
+        'total_prompt_tokens',
+        'total_completion_tokens',
+      ]);
+      const totalPrompt = (stored.total_prompt_tokens || 0) + usage.promptTokens;
+      const totalCompletion = (stored.total_completion_tokens || 0) + usage.completionTokens;
+      setTotalPromptTokens(totalPrompt);
+      setTotalCompletionTokens(totalCompletion);
+      await chrome.storage.local.set({
+        total_prompt_tokens: totalPrompt,
+        total_completion_tokens: totalCompletion,
+      });
+      await recordUsage(usage, cost);
+    } catch (error) {
+      console.error('Failed to record usage:', error);
     }
+    return { cost, costUnknown: price === null };
+  }
+
+  // Enforce the daily and monthly spend caps before a new request
+  async function checkSpendAllowed(): Promise<boolean> {
+    const limits = await getSpendLimits();
+    const check = await checkSpendLimits(limits);
+    if (!check.exceeded) return true;
+
+    const summary = `${check.exceeded === 'daily' ? 'Daily' : 'Monthly'} spend cap of ${formatCost(
+      check.limit,
+    )} reached (${formatCost(check.spent)} spent).`;
+    if (limits.action === 'block') {
+      setError(`${summary} Raise the cap on the options page to continue.`);
+      return false;
+    }
+    return confirm(`${summary} Send this request anyway?`);
   }
 
   async function handleSend() {
-    if (!input.trim()) return;
-    if (!hasKey) {
-      setIsSettingsOpen(true);
+    if (!input.trim() && attachments.length === 0) return;
+    if (readingFiles) return;
+    if (!canSend) {
+      openSettings();
       return;
     }
+    if (!(await checkSpendAllowed())) return;
 
-    // Fork conversation if viewing archived chat
+    // Fork conversation if viewing archived chat; the fork starts with a copy of its todos
+    let runConversationId = conversationId;
     if (needsFork) {
-      const newId = generateConversationId();
-      setConversationId(newId);
+      runConversationId = generateConversationId();
+      await saveTodos(runConversationId, todoItems);
+      setConversationId(runConversationId);
       setNeedsFork(false);
     }
 
     const userMsg: ChatMessage = { role: 'user', content: input.trim() };
-    setMessages((prev) => [...prev, userMsg]);
+    if (attachedTabs.length > 0) userMsg.attachedTabs = attachedTabs;
+    if (attachments.length > 0) userMsg.attachments = attachments;
+    const history = [...messages, userMsg];
+    setMessages(history);
     setInput('');
+    setAttachedTabs([]);
+    setAttachments([]);
+    setPlanSteps([]);
+    await runTask(history, undefined, runConversationId);
+  }
+
+  // Continue a failed run from its last completed tool step, replacing its error reply
+  async function resumeFailedRun() {
+    if (!failedRun || !(await checkSpendAllowed())) return;
+    setMessages(failedRun.history);
+    await runTask(failedRun.history, failedRun.checkpoint);
+  }
+
+  function showRetryNotice(notice: RetryNotice) {
+    setRetryNotice(notice);
+    setTimeout(
+      () => setRetryNotice((current) => (current === notice ? null : current)),
+      notice.delayMs,
+    );
+  }
+
+  function changeContextCapture(settings: ContextCaptureSettings) {
+    setContextCapture(settings);
+    chrome.storage?.local
+      .set({ context_capture: settings })
+      .catch((error) => console.warn('Failed to save context capture settings:', error));
+  }
+
+  // Typing "@" at the start of a word opens the tab picker; refresh the tab list each time
+  const tabPickerOpen = tabQuery !== null;
+  useEffect(() => {
+    if (!tabPickerOpen) return;
+    grokService.current
+      .listOpenTabs()
+      .then(setOpenTabs)
+      .catch((error) => console.warn('Failed to list tabs:', error));
+  }, [tabPickerOpen]);
+
+  function attachTab(tab: OpenTab) {
+    if (attachedTabs.length >= MAX_ATTACHED_TABS) return;
+    if (!attachedTabs.some((t) => t.tabId === tab.tabId)) {
+      setAttachedTabs([...attachedTabs, tab]);
+    }
+    setInput(stripTabMention(input));
+  }
+
+  function openTabPicker() {
+    setInput((prev) => (prev === '' || /\s$/.test(prev) ? `${prev}@` : `${prev} @`));
+    inputRef.current?.focus();
+  }
+
+  // Read picked or dropped files; files beyond the limit or that fail to read are reported
+  async function addFiles(files: File[]) {
+    const slots = MAX_ATTACHMENTS - attachments.length;
+    const errors: string[] = [];
+    if (files.length > slots) {
+      errors.push(`Only ${MAX_ATTACHMENTS} files can be attached to a message.`);
+    }
+    setReadingFiles(true);
+    const read: ChatAttachment[] = [];
+    for (const file of files.slice(0, Math.max(0, slots))) {
+      try {
+        read.push(await readAttachment(file));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    setReadingFiles(false);
+    setAttachments((prev) => [...prev, ...read]);
+    setError(errors.length > 0 ? errors.join('\n') : null);
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragActive(false);
+    if (!canSend || loading) return;
+    addFiles(Array.from(e.dataTransfer.files));
+  }
+
+  // The TODO list follows the open conversation and updates as its tools run
+  useEffect(() => {
+    if (!conversationId) return;
+    const key = todoStorageKey(conversationId);
+    getTodos(conversationId)
+      .then(setTodoItems)
+      .catch((error) => console.warn('Failed to load TODO list:', error));
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && key in changes) setTodoItems(changes[key].newValue || []);
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [conversationId]);
+
+  // Edits go through the background, which applies them in turn with the todo_* tools;
+  // the list shown here updates right away and then follows storage
+  function editTodos(edit: TodoEdit) {
+    setTodoItems((prev) => {
+      const next = prev.map((todo) => ({ ...todo }));
+      return applyTodoEdit(next, edit) ? prev : next;
+    });
+    chrome.runtime
+      .sendMessage({ type: BACKGROUND_MESSAGE_TYPES.EDIT_TODOS, conversationId, edit })
+      .then((response) => {
+        if (response?.success) return;
+        setError(`Failed to update TODO list: ${response?.error || 'unknown error'}`);
+        return getTodos(conversationId).then(setTodoItems);
+      })
+      .catch((error) => console.warn('Failed to update TODO list:', error));
+  }
+
+  // Labels for what a captured context actually contains
+  function describeAttachedContext(context: BrowserContext): string[] {
+    return [
+      context.content && 'page text',
+      context.screenshot && selectedModelSupportsVision && 'screenshot',
+      context.metadata && 'metadata',
+      context.focusedField && 'focused field',
+    ].filter((label): label is string => !!label);
+  }
+
+  // Run the agent on a history ending with the user's message and append its reply
+  async function runTask(
+    runHistory: ChatMessage[],
+    resumeFrom?: ResumeCheckpoint,
+    runConversationId = conversationId,
+  ) {
+    let history = runHistory;
     setLoading(true);
+    setError(null);
+    setApiErrorKind(null);
+    setFailedRun(null);
     setThinkingData([]); // Clear previous thinking data
-    setTodoItems([]); // Clear previous TODO items for new request
+    setStreamingText('');
+    setStreamingReasoning('');
 
     // Create abort controller for this request
     const controller = new AbortController();
     setAbortController(controller);
 
     try {
-      // Get current browser context
-      const context = await grokService.current.getCurrentBrowserContext();
+      // Get current browser context; a resumed run reuses the system prompt it started with
+      let context: BrowserContext = { url: '', title: '' };
+      if (!resumeFrom) {
+        context = await grokService.current.getCurrentBrowserContext(contextCapture);
+        const tabsToAttach = history[history.length - 1].attachedTabs;
+        if (tabsToAttach?.length) {
+          context.attachedTabs = await grokService.current.fetchAttachedTabs(tabsToAttach);
+        }
+        const attachedContext = describeAttachedContext(context);
+        if (attachedContext.length > 0) {
+          const userMsg = { ...history[history.length - 1], attachedContext };
+          history = [...history.slice(0, -1), userMsg];
+          setMessages(history);
+        }
+        // chrome_upload_file reads attachments from the stored conversation during the run
+        if (history[history.length - 1].attachments?.length) {
+          await saveConversation(runConversationId, history, conversationSummary, agentSettings);
+        }
+      }
 
       // Use selected prompt or proceed without one
       let promptContent = '';
@@ -434,9 +1024,11 @@ function App() {
       );
 
       // Execute with Grok
-      const conversationHistory = [...messages, userMsg].map((msg) => ({
+      const conversationHistory = history.map((msg) => ({
         role: msg.role === 'function' ? ('tool' as const) : msg.role,
-        content: msg.content,
+        content: msg.attachments?.length
+          ? buildAttachmentContent(msg.content, msg.attachments, selectedModelSupportsVision)
+          : msg.content,
         name: msg.name,
       }));
       const result = await grokService.current.executeWithPrompt(
@@ -446,74 +1038,84 @@ function App() {
         grokTools,
         (toolCall) => {
           setThinkingData((prev) => [...prev, toolCall]);
-
-          // Update TODO items when TODO tools are executed
-          if (toolCall.name.startsWith('todo_') && toolCall.result) {
-            if (toolCall.name === 'todo_create' || toolCall.name === 'todo_list') {
-              // Refresh the TODO list
-              setTimeout(async () => {
-                try {
-                  const listResult = await chrome.runtime.sendMessage({
-                    type: 'EXECUTE_TOOL',
-                    name: 'todo_list',
-                    args: {},
-                  });
-                  if (listResult?.success && listResult.result?.todos) {
-                    setTodoItems(listResult.result.todos);
-                  }
-                } catch (error) {
-                  console.warn('Failed to refresh TODO list:', error);
-                }
-              }, 100);
-            } else if (toolCall.name === 'todo_update' || toolCall.name === 'todo_complete') {
-              // Update specific TODO item
-              setTodoItems((prev) =>
-                prev.map((todo) =>
-                  todo.id === toolCall.result?.id ? { ...todo, ...toolCall.result } : todo,
-                ),
-              );
-            }
-          }
+        },
+        {
+          onStreamText: setStreamingText,
+          signal: controller.signal,
+          conversationId: runConversationId,
+          summary: conversationSummary,
+          settings: agentSettings,
+          onReviewToolCalls: reviewToolCalls,
+          onPlanUpdate: setPlanSteps,
+          onReasoning: setStreamingReasoning,
+          onRetry: showRetryNotice,
+          resumeFrom,
         },
       );
+      setConversationSummary(result.summary);
+      const runCost = result.usage ? await recordRunUsage(result.usage) : undefined;
 
       // Add assistant response
       const assistantMessage: ChatMessage = {
         role: 'assistant',
         content: result.message,
+        ...(result.cancelled && { cancelled: true }),
+        ...(result.reasoning && {
+          reasoning: result.reasoning,
+          reasoningTokens: result.reasoningTokens,
+        }),
+        ...(result.usage && { usage: result.usage, cost: runCost?.cost }),
+        ...(runCost?.costUnknown && { costUnknown: true }),
+        ...(result.citations && { citations: result.citations }),
+        ...(result.sources && { sources: result.sources }),
       };
 
-      const updatedMessages = [...messages, userMsg, assistantMessage];
+      const updatedMessages = [...history, assistantMessage];
       setMessages(updatedMessages);
 
       // Save conversation
-      if (conversationId) {
-        await saveConversation(conversationId, updatedMessages);
+      if (runConversationId) {
+        await saveConversation(runConversationId, updatedMessages, result.summary, agentSettings);
       }
 
-      if (!result.success) {
-        setError(result.message);
+      if (!result.success && !result.cancelled) {
+        if (result.errorKind === 'quota' || result.errorKind === 'auth') {
+          setApiErrorKind(result.errorKind);
+        } else {
+          setError(result.message);
+        }
+        if (result.checkpoint) setFailedRun({ history, checkpoint: result.checkpoint });
+        markPlanStepFailed();
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
       setError(errorMessage);
+      markPlanStepFailed();
 
       const errorResponse: ChatMessage = {
         role: 'assistant',
         content: `Error: ${errorMessage}`,
       };
 
-      const updatedMessages = [...messages, userMsg, errorResponse];
+      const updatedMessages = [...history, errorResponse];
       setMessages(updatedMessages);
 
       // Save conversation with error
-      if (conversationId) {
-        await saveConversation(conversationId, updatedMessages);
+      if (runConversationId) {
+        await saveConversation(
+          runConversationId,
+          updatedMessages,
+          conversationSummary,
+          agentSettings,
+        );
       }
     } finally {
       setLoading(false);
       setAbortController(null);
       setThinkingData([]); // Clear thinking data after completion
+      setStreamingText('');
+      setStreamingReasoning('');
+      setRetryNotice(null);
       // Keep TODO items visible after completion for user reference
     }
   }
@@ -671,7 +1273,23 @@ function App() {
   }
 
   return (
-    <div className="flex flex-col h-screen bg-background text-foreground">
+    <div
+      className="relative flex flex-col h-screen bg-background text-foreground"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {dragActive && (
+        <div className="pointer-events-none absolute inset-2 z-50 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 text-sm">
+          Drop images, PDFs or text files to attach them
+        </div>
+      )}
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b">
         <div className="flex items-center gap-2">
@@ -700,7 +1318,26 @@ function App() {
           >
             <History className="h-4 w-4" />
           </Button>
-          <Button variant="outline" size="icon" onClick={() => setIsSettingsOpen(true)}>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setShowConversationSettings(true)}
+            title={
+              agentSettings.stepMode ? 'Conversation Settings (step mode)' : 'Conversation Settings'
+            }
+            className={cn(agentSettings.stepMode && 'border-blue-500/60')}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setShowSecurity(true)}
+            title="Security Events"
+          >
+            <ShieldAlert className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={openSettings}>
             <Settings className="h-4 w-4" />
           </Button>
         </div>
@@ -715,6 +1352,26 @@ function App() {
           </div>
         </div>
       )}
+      {apiErrorKind && (
+        <ApiErrorBanner
+          kind={apiErrorKind}
+          providerLabel={PROVIDER_LABELS[provider.type]}
+          onOpenSettings={openSettings}
+          onDismiss={() => setApiErrorKind(null)}
+        />
+      )}
+      {failedRun && !loading && (
+        <div className="mx-4 mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            Stopped after {failedRun.checkpoint.step} completed step
+            {failedRun.checkpoint.step === 1 ? '' : 's'}.
+          </span>
+          <Button size="sm" variant="outline" onClick={resumeFailedRun}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Resume
+          </Button>
+        </div>
+      )}
 
       {/* Prompt Selection */}
       {messages.length === 0 && (
@@ -771,6 +1428,18 @@ function App() {
                     {message.automation.action}
                   </div>
                 )}
+                {message.cancelled && (
+                  <div className="text-xs opacity-75 mb-1 flex items-center gap-1">
+                    <Square className="h-3 w-3" />
+                    Cancelled
+                  </div>
+                )}
+                {message.reasoning && (
+                  <ReasoningSection
+                    reasoning={message.reasoning}
+                    tokens={message.reasoningTokens}
+                  />
+                )}
                 {(() => {
                   const { content, truncated } = getDisplayText(index, message.content);
                   return (
@@ -778,12 +1447,21 @@ function App() {
                       <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
                         components={{
-                          a: ({ node, ...props }) => (
-                            <a {...props} target="_blank" rel="noopener noreferrer" />
-                          ),
+                          a: ({ node, ...props }) => {
+                            const citationId = citationIdFromHref(props.href);
+                            return citationId ? (
+                              <SourceChip
+                                source={message.sources?.find((s) => s.id === citationId)}
+                              >
+                                {props.children}
+                              </SourceChip>
+                            ) : (
+                              <a {...props} target="_blank" rel="noopener noreferrer" />
+                            );
+                          },
                         }}
                       >
-                        {content}
+                        {linkCitations(content)}
                       </ReactMarkdown>
                       {truncated && (
                         <div className="mt-2">
@@ -824,6 +1502,35 @@ function App() {
                     </div>
                   );
                 })()}
+                {message.citations && message.citations.length > 0 && (
+                  <CitationList citations={message.citations} />
+                )}
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.attachments.map((attachment) => (
+                      <AttachmentChip key={attachment.id} attachment={attachment} />
+                    ))}
+                  </div>
+                )}
+                {message.attachedTabs && message.attachedTabs.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.attachedTabs.map((tab) => (
+                      <TabChip key={tab.tabId} tab={tab} />
+                    ))}
+                  </div>
+                )}
+                {message.attachedContext && message.attachedContext.length > 0 && (
+                  <div className="mt-1 text-[10px] opacity-75">
+                    Attached: {message.attachedContext.join(' · ')}
+                  </div>
+                )}
+                {message.usage && (
+                  <div className="mt-1 text-[10px] text-muted-foreground">
+                    {message.costUnknown ? 'cost unknown' : formatCost(message.cost || 0)} · in{' '}
+                    {message.usage.promptTokens.toLocaleString()} / out{' '}
+                    {message.usage.completionTokens.toLocaleString()}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -834,10 +1541,36 @@ function App() {
                   <Loader2 className="h-3 w-3 animate-spin" />
                   <span className="text-sm font-medium">Grok is thinking...</span>
                 </div>
+                {retryNotice && (
+                  <div className="text-xs text-muted-foreground mb-2">
+                    {RETRY_REASONS[retryNotice.kind] || 'Request failed'}, retrying in{' '}
+                    {Math.ceil(retryNotice.delayMs / 1000)}s (attempt {retryNotice.attempt + 1} of{' '}
+                    {retryNotice.maxAttempts})
+                  </div>
+                )}
+                {streamingReasoning && (
+                  <ReasoningSection reasoning={streamingReasoning} defaultOpen />
+                )}
+                {streamingText && (
+                  <div className="prose prose-sm dark:prose-invert max-w-none mb-2">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      components={{
+                        a: ({ node, ...props }) =>
+                          citationIdFromHref(props.href) ? (
+                            <SourceChip>{props.children}</SourceChip>
+                          ) : (
+                            <a {...props} target="_blank" rel="noopener noreferrer" />
+                          ),
+                      }}
+                    >
+                      {linkCitations(sanitizeAndTrimMarkdown(streamingText))}
+                    </ReactMarkdown>
+                  </div>
+                )}
                 {thinkingData.length > 0 && (
                   <div className="space-y-1 max-h-32 overflow-y-auto">
                     {thinkingData.map((data, index) => {
-                      const isPlanning = data.name === 'Planning';
                       const isTodo = data.name.startsWith('todo_');
                       return (
                         <div
@@ -846,20 +1579,14 @@ function App() {
                         >
                           <div
                             className={`w-1 h-1 rounded-full mt-2 flex-shrink-0 ${
-                              isPlanning ? 'bg-blue-500' : isTodo ? 'bg-green-500' : 'bg-primary'
+                              isTodo ? 'bg-green-500' : 'bg-primary'
                             }`}
                           />
                           <div className="flex-1">
-                            <span
-                              className={`font-medium ${
-                                isPlanning ? 'text-blue-400' : isTodo ? 'text-green-400' : ''
-                              }`}
-                            >
-                              {isPlanning ? 'Planning' : data.name}:
+                            <span className={`font-medium ${isTodo ? 'text-green-400' : ''}`}>
+                              {data.name}:
                             </span>{' '}
-                            {isPlanning
-                              ? data.description.replace('Planning: ', '')
-                              : data.description}
+                            {data.description}
                           </div>
                         </div>
                       );
@@ -869,6 +1596,40 @@ function App() {
               </div>
             </div>
           )}
+          {pendingApproval && (
+            <Card className="border-yellow-500/30 bg-yellow-500/5">
+              <CardContent className="p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <ShieldAlert className="h-4 w-4 text-yellow-500" />
+                  Allow {pendingApproval.toolName}?
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Requested on {pendingApproval.origin}
+                </div>
+                <pre className="text-xs bg-muted rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                  {JSON.stringify(pendingApproval.args ?? {}, null, 2)}
+                </pre>
+                <div className="flex items-center justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => respondToApproval('deny')}>
+                    Deny
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => respondToApproval('always')}>
+                    Always for this site
+                  </Button>
+                  <Button size="sm" onClick={() => respondToApproval('approve')}>
+                    Approve
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+          {pendingReview && (
+            <StepReviewCard
+              key={pendingReview[0]?.id}
+              toolCalls={pendingReview}
+              onSubmit={submitReview}
+            />
+          )}
         </div>
       </div>
 
@@ -884,6 +1645,12 @@ function App() {
               {sessionCompletionTokens > 0 && (
                 <span>out: {sessionCompletionTokens.toLocaleString()}</span>
               )}
+              {(conversationCost > 0 || conversationCostUnknown) && (
+                <span>
+                  {formatCost(conversationCost)}
+                  {conversationCostUnknown && ' + unknown'}
+                </span>
+              )}
             </div>
             {(totalPromptTokens > 0 || totalCompletionTokens > 0) && (
               <div className="flex items-center gap-3">
@@ -903,110 +1670,124 @@ function App() {
                 </Button>
               </div>
             )}
-          </div>
-        </div>
-      )}
-
-      {/* TODO List */}
-      {todoItems.length > 0 && (
-        <div className="px-4 py-2 border-t bg-muted/30">
-          <div className="flex items-center justify-between mb-2">
-            <h3 className="text-sm font-medium flex items-center gap-2">
-              <CheckCircle2 className="h-4 w-4" />
-              Task Progress
-            </h3>
             <Button
               variant="ghost"
               size="sm"
-              onClick={() =>
-                setTodoItems((prev) => prev.filter((todo) => todo.status !== 'completed'))
-              }
-              className="h-6 w-6 p-0"
-              title="Clear completed tasks"
+              onClick={() => setShowUsage(true)}
+              className="h-4 w-4 p-0"
+              title="Usage and spend"
             >
-              <X className="h-3 w-3" />
+              <BarChart3 className="h-3 w-3" />
             </Button>
           </div>
-          <div className="space-y-1 max-h-40 overflow-y-auto">
-            {todoItems.map((todo) => (
-              <div
-                key={todo.id}
-                className={`flex items-start gap-2 p-2 rounded text-xs ${
-                  todo.status === 'completed'
-                    ? 'bg-green-500/10 border border-green-500/20'
-                    : todo.status === 'in_progress'
-                      ? 'bg-blue-500/10 border border-blue-500/20'
-                      : 'bg-muted/50 border border-border'
-                }`}
-              >
-                <div
-                  className={`w-2 h-2 rounded-full mt-1 flex-shrink-0 ${
-                    todo.status === 'completed'
-                      ? 'bg-green-500'
-                      : todo.status === 'in_progress'
-                        ? 'bg-blue-500'
-                        : todo.priority === 'urgent'
-                          ? 'bg-red-500'
-                          : todo.priority === 'high'
-                            ? 'bg-orange-500'
-                            : 'bg-gray-400'
-                  }`}
-                />
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium truncate">{todo.title}</div>
-                  <div className="flex items-center gap-2 mt-1 text-muted-foreground">
-                    <span
-                      className={`px-1 py-0.5 rounded text-xs ${
-                        todo.priority === 'urgent'
-                          ? 'bg-red-500/20 text-red-400'
-                          : todo.priority === 'high'
-                            ? 'bg-orange-500/20 text-orange-400'
-                            : todo.priority === 'medium'
-                              ? 'bg-yellow-500/20 text-yellow-400'
-                              : 'bg-gray-500/20 text-gray-400'
-                      }`}
-                    >
-                      {todo.priority}
-                    </span>
-                    <span
-                      className={`px-1 py-0.5 rounded text-xs ${
-                        todo.status === 'completed'
-                          ? 'bg-green-500/20 text-green-400'
-                          : todo.status === 'in_progress'
-                            ? 'bg-blue-500/20 text-blue-400'
-                            : 'bg-gray-500/20 text-gray-400'
-                      }`}
-                    >
-                      {todo.status.replace('_', ' ')}
-                    </span>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
         </div>
       )}
 
+      {/* Plan Checklist */}
+      {planSteps.length > 0 && <PlanChecklist steps={planSteps} />}
+
+      {/* TODO List */}
+      {todoItems.length > 0 && <TodoPanel todos={todoItems} onEdit={editTodos} />}
+
       {/* Input */}
       <div className="p-4 border-t">
+        {(attachedTabs.length > 0 || attachments.length > 0 || readingFiles) && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {attachedTabs.map((tab) => (
+              <TabChip
+                key={tab.tabId}
+                tab={tab}
+                onRemove={() => setAttachedTabs(attachedTabs.filter((t) => t !== tab))}
+              />
+            ))}
+            {attachments.map((attachment) => (
+              <AttachmentChip
+                key={attachment.id}
+                attachment={attachment}
+                onRemove={() => setAttachments(attachments.filter((a) => a !== attachment))}
+              />
+            ))}
+            {readingFiles && (
+              <span className="text-xs text-muted-foreground self-center">Reading files...</span>
+            )}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
         <div className="relative w-full">
+          {tabPickerOpen && !loading && (
+            <TabPicker
+              tabs={tabMatches}
+              attachedIds={attachedTabs.map((tab) => tab.tabId)}
+              limitReached={attachedTabs.length >= MAX_ATTACHED_TABS}
+              onPick={attachTab}
+            />
+          )}
           <Input
+            ref={inputRef}
             type="text"
-            placeholder={hasKey ? 'Ask me anything...' : 'Enter API key in settings to start'}
-            className="w-full pr-20 h-12"
+            placeholder={
+              canSend
+                ? 'Ask me anything...'
+                : apiKeyStatus.locked
+                  ? 'Unlock your API key in settings to start'
+                  : 'Enter API key in settings to start'
+            }
+            className="w-full pr-36 h-12"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => {
-              if (e.key === 'Enter' && !e.shiftKey) handleSend();
+              if (tabPickerOpen && e.key === 'Escape') {
+                setInput(stripTabMention(input));
+                return;
+              }
+              if (e.key !== 'Enter' || e.shiftKey) return;
+              // With the picker open, Enter attaches the best match instead of sending
+              const match = tabMatches.find(
+                (tab) => !attachedTabs.some((t) => t.tabId === tab.tabId),
+              );
+              if (tabPickerOpen && match) attachTab(match);
+              else handleSend();
             }}
-            disabled={!hasKey || loading}
+            disabled={!canSend || loading}
           />
           <div className="absolute right-2 top-1/2 -translate-y-1/2 flex space-x-1">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={openTabPicker}
+              disabled={!canSend || loading || attachedTabs.length >= MAX_ATTACHED_TABS}
+              className="h-8 w-8 p-0"
+              title="Attach open tabs (@tab)"
+            >
+              <AtSign className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                !canSend || loading || readingFiles || attachments.length >= MAX_ATTACHMENTS
+              }
+              className="h-8 w-8 p-0"
+              title="Attach images, PDFs or text files"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
             <Button
               size="sm"
               variant={isRecording ? 'destructive' : 'outline'}
               onClick={toggleRecording}
-              disabled={!hasKey || loading}
+              disabled={!canSend || loading}
               className="h-8 w-8 p-0"
               title={isRecording ? 'Stop voice input' : 'Start voice input'}
             >
@@ -1015,13 +1796,19 @@ function App() {
             <Button
               size="sm"
               onClick={loading ? cancelRequest : handleSend}
-              disabled={!hasKey}
+              disabled={!canSend}
               className="h-8"
             >
               {loading ? <Square className="h-4 w-4" /> : 'Send'}
             </Button>
           </div>
         </div>
+        <ContextCaptureToggles
+          settings={contextCapture}
+          onChange={changeContextCapture}
+          supportsVision={selectedModelSupportsVision}
+          disabled={loading}
+        />
         {selectedPrompt && (
           <div className="mt-2 text-xs text-muted-foreground">
             Using: {promptTypes.find((p) => p.id === selectedPrompt)?.name}
@@ -1035,59 +1822,194 @@ function App() {
           <Card className="w-[420px] max-w-[90vw] p-4 space-y-3">
             <div className="text-lg font-semibold">Settings</div>
             <div className="space-y-2">
-              <label className="text-sm">xAI API Key</label>
-              <Input
-                type="password"
-                placeholder="xai-..."
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-              />
-              <p className="text-xs text-muted-foreground">
-                Get your API key from{' '}
-                <a
-                  href="https://console.x.ai/"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  xAI Console
-                </a>
-              </p>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm">xAI Model</label>
+              <label className="text-sm">Provider</label>
               <select
                 className="w-full h-10 rounded-md border bg-background px-3 text-sm"
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value)}
+                value={providerDraft.type}
+                onChange={(e) => changeProviderType(e.target.value as ProviderType)}
               >
-                <option value="grok-4-fast">grok-4-fast</option>
-                <option value="grok-4-fast-reasoning">grok-4-fast-reasoning</option>
-                <option value="grok-4-code-fast">grok-4-code-fast</option>
-                <option value="grok-4o">grok-4o</option>
-                <option value="grok-4o-mini">grok-4o-mini</option>
-                <option value="grok-2">grok-2</option>
-                <option value="grok-2-mini">grok-2-mini</option>
-                <option value="grok-vision-beta">grok-vision-beta</option>
+                {(Object.keys(PROVIDER_LABELS) as ProviderType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {PROVIDER_LABELS[type]}
+                  </option>
+                ))}
               </select>
+              <Input
+                placeholder="Base URL"
+                value={providerDraft.baseUrl}
+                onChange={(e) => setProviderDraft({ ...providerDraft, baseUrl: e.target.value })}
+              />
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Auth header (empty for none)"
+                  value={providerDraft.authHeader}
+                  onChange={(e) =>
+                    setProviderDraft({ ...providerDraft, authHeader: e.target.value })
+                  }
+                />
+                <Input
+                  className="w-28"
+                  placeholder="Scheme"
+                  value={providerDraft.authScheme}
+                  onChange={(e) =>
+                    setProviderDraft({ ...providerDraft, authScheme: e.target.value })
+                  }
+                />
+              </div>
+              {providerDraft.type === 'local' && (
+                <p className="text-xs text-muted-foreground">
+                  Ollama only accepts extension requests when started with
+                  OLLAMA_ORIGINS=chrome-extension://*
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm">API Key</label>
+              {apiKeyStatus.locked ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input
+                      type="password"
+                      placeholder="Vault passphrase"
+                      value={vaultPassphrase}
+                      onChange={(e) => setVaultPassphrase(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && unlockVault()}
+                    />
+                    <Button onClick={unlockVault} disabled={!vaultPassphrase}>
+                      Unlock
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Your API key is encrypted. Unlock it for this browser session.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <Input
+                    type="password"
+                    placeholder={
+                      providerDraft.type === 'xai'
+                        ? 'xai-...'
+                        : providerRequiresApiKey(providerDraft)
+                          ? 'API key'
+                          : 'Not needed for this endpoint'
+                    }
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                  />
+                  {providerDraft.type === 'xai' && (
+                    <p className="text-xs text-muted-foreground">
+                      Get your API key from{' '}
+                      <a
+                        href="https://console.x.ai/"
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        xAI Console
+                      </a>
+                    </p>
+                  )}
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={keyStorageArea === 'local'}
+                      onChange={(e) => setKeyStorageArea(e.target.checked ? 'local' : 'sync')}
+                    />
+                    Local only (don&apos;t sync to other browsers)
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={encryptApiKey}
+                      onChange={(e) => setEncryptApiKey(e.target.checked)}
+                    />
+                    Encrypt with a passphrase
+                  </label>
+                  {encryptApiKey && (
+                    <Input
+                      type="password"
+                      placeholder={
+                        apiKeyStatus.encrypted
+                          ? 'New passphrase (leave blank to keep current)'
+                          : 'Passphrase'
+                      }
+                      value={vaultPassphrase}
+                      onChange={(e) => setVaultPassphrase(e.target.value)}
+                    />
+                  )}
+                  {apiKeyStatus.encrypted && (
+                    <Button variant="outline" size="sm" onClick={lockVault}>
+                      <Lock className="h-3 w-3 mr-1" />
+                      Lock now
+                    </Button>
+                  )}
+                </>
+              )}
+              {vaultError && <p className="text-xs text-destructive">{vaultError}</p>}
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm">Model</label>
+              <div className="flex gap-2">
+                <select
+                  className="w-full h-10 rounded-md border bg-background px-3 text-sm"
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                >
+                  {pickerModels.map((model) => (
+                    <option key={model} value={model}>
+                      {describeModel(model)}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => refreshModelCatalog(providerDraft)}
+                  disabled={loadingModels}
+                  title="Refresh model list"
+                >
+                  {loadingModels ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+              {selectedModelInfo && !selectedModelInfo.tools && (
+                <p className="text-xs text-yellow-500">
+                  This model does not support tool calling. Browser tools will be disabled.
+                </p>
+              )}
+              {modelCatalogNote && (
+                <p className="text-xs text-muted-foreground">{modelCatalogNote}</p>
+              )}
+              <Input
+                placeholder="Extra model ids, comma-separated"
+                value={modelsInput}
+                onChange={(e) => setModelsInput(e.target.value)}
+              />
             </div>
             <div className="space-y-2">
               <label className="text-sm">Live Search</label>
               <select
                 className="w-full h-10 rounded-md border bg-background px-3 text-sm"
                 value={liveSearchMode}
-                onChange={(e) => setLiveSearchMode(e.target.value as any)}
+                onChange={(e) => setLiveSearchMode(e.target.value as LiveSearchMode)}
+                disabled={providerDraft.type !== 'xai'}
               >
-                <option value="auto">Auto</option>
-                <option value="on">On</option>
-                <option value="off">Off</option>
+                <option value="auto">Auto: the model decides when to search</option>
+                <option value="on">On: always search the web</option>
+                <option value="off">Off: never search the web</option>
               </select>
               <p className="text-xs text-muted-foreground">
-                Controls semantic live search behavior.
+                {providerDraft.type === 'xai'
+                  ? 'xAI Live Search adds web, news and X results with source links and is billed per source. Open tabs stay searchable with the search_tabs_content tool in every mode.'
+                  : 'Live Search is only available with the xAI provider; requests to this provider never search the web.'}
               </p>
             </div>
             <div className="flex items-center justify-end gap-2">
-              <Button variant="secondary" onClick={() => setIsSettingsOpen(false)}>
+              <Button variant="secondary" onClick={cancelSettings}>
                 Cancel
               </Button>
               <Button onClick={saveSettings}>Save</Button>
@@ -1107,6 +2029,19 @@ function App() {
           onClose={() => setShowHistory(false)}
         />
       )}
+
+      {/* Security Events Modal */}
+      {showSecurity && <SecurityView onClose={() => setShowSecurity(false)} />}
+      {showUsage && <UsageView onClose={() => setShowUsage(false)} />}
+
+      {/* Conversation Settings Modal */}
+      {showConversationSettings && (
+        <ConversationSettings
+          settings={agentSettings}
+          onSave={saveAgentSettings}
+          onClose={() => setShowConversationSettings(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,49 @@
+import { AlertTriangle, KeyRound, X } from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+
+/**
+ * Errors retrying cannot fix: the account is out of credits or the key was rejected
+ */
+export function ApiErrorBanner({
+  kind,
+  providerLabel,
+  onOpenSettings,
+  onDismiss,
+}: {
+  kind: 'quota' | 'auth';
+  providerLabel: string;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}) {
+  const quota = kind === 'quota';
+
+  return (
+    <div className="mx-4 mt-2 p-3 rounded border border-amber-500/40 bg-amber-500/10">
+      <div className="flex items-start gap-2">
+        {quota ? (
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 flex-shrink-0" />
+        ) : (
+          <KeyRound className="h-4 w-4 mt-0.5 text-amber-500 flex-shrink-0" />
+        )}
+        <div className="flex-1 space-y-1">
+          <div className="text-sm font-medium">
+            {quota ? 'Quota exhausted' : 'API key rejected'}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {quota
+              ? `Your ${providerLabel} account is out of credits or has reached its spending limit. Add credits in the provider's console, then try again.`
+              : `${providerLabel} did not accept the API key. Check the key and provider settings.`}
+          </div>
+          {!quota && (
+            <Button size="sm" variant="outline" onClick={onOpenSettings}>
+              Open settings
+            </Button>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { FileText, Image as ImageIcon, X } from 'lucide-react';
+import type { ChatAttachment } from '../../../types/grok';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Attached file: a thumbnail for images, name and size otherwise; removable while composing
+ */
+export function AttachmentChip({
+  attachment,
+  onRemove,
+}: {
+  attachment: ChatAttachment;
+  onRemove?: () => void;
+}) {
+  const details = [
+    attachment.name,
+    formatSize(attachment.size),
+    attachment.truncated && 'Only the first part of the file is sent',
+  ]
+    .filter(Boolean)
+    .join('\n');
+  return (
+    <span
+      className="inline-flex max-w-[12rem] items-center gap-1 rounded-full border bg-muted/50 py-0.5 pl-1 pr-2 text-xs"
+      title={details}
+    >
+      {attachment.kind === 'image' && attachment.dataUrl ? (
+        <img
+          src={attachment.dataUrl}
+          alt=""
+          className="h-5 w-5 shrink-0 rounded-full object-cover"
+        />
+      ) : attachment.kind === 'image' ? (
+        <ImageIcon className="h-3 w-3 shrink-0" />
+      ) : (
+        <FileText className="h-3 w-3 shrink-0" />
+      )}
+      <span className="truncate">{attachment.name}</span>
+      {attachment.truncated && <span className="shrink-0 text-muted-foreground">(cut)</span>}
+      {onRemove && (
+        <button
+          type="button"
+          className="shrink-0 text-muted-foreground hover:text-foreground"
+          onClick={onRemove}
+          title="Remove attachment"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,38 @@
+import { Globe } from 'lucide-react';
+
+function citationLabel(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Live Search sources cited by an answer
+ */
+export function CitationList({ citations }: { citations: string[] }) {
+  return (
+    <div className="mt-2 pt-2 border-t border-border/60">
+      <div className="flex items-center gap-1 mb-1 text-xs font-medium text-muted-foreground">
+        <Globe className="h-3 w-3" />
+        Sources
+      </div>
+      <ol className="space-y-0.5 text-xs list-decimal list-inside">
+        {citations.map((url) => (
+          <li key={url} className="truncate">
+            <a
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={url}
+              className="text-primary hover:underline"
+            >
+              {citationLabel(url)}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Camera, FileText, Tags, TextCursorInput } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { cn } from '../../../lib/utils';
+import type { ContextCaptureSettings } from '../../../types/grok';
+
+const CAPTURE_OPTIONS: {
+  key: keyof ContextCaptureSettings;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+}[] = [
+  {
+    key: 'pageText',
+    label: 'Page text',
+    description: 'Readable main text of the active tab',
+    icon: FileText,
+  },
+  {
+    key: 'screenshot',
+    label: 'Screenshot',
+    description: 'Screenshot of the visible viewport',
+    icon: Camera,
+  },
+  {
+    key: 'metadata',
+    label: 'Metadata',
+    description: 'Description, OpenGraph and JSON-LD data',
+    icon: Tags,
+  },
+  {
+    key: 'focusedField',
+    label: 'Focused field',
+    description:
+      'The form field that has focus, without password, payment card or one-time code values',
+    icon: TextCursorInput,
+  },
+];
+
+/**
+ * Which parts of the active tab are attached to each message
+ */
+export function ContextCaptureToggles({
+  settings,
+  onChange,
+  supportsVision,
+  disabled,
+}: {
+  settings: ContextCaptureSettings;
+  onChange: (settings: ContextCaptureSettings) => void;
+  supportsVision: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+      <span className="text-muted-foreground mr-1">Attach:</span>
+      {CAPTURE_OPTIONS.map(({ key, label, description, icon: Icon }) => {
+        const unsupported = key === 'screenshot' && !supportsVision;
+        const active = settings[key] && !unsupported;
+        return (
+          <button
+            key={key}
+            type="button"
+            disabled={disabled || unsupported}
+            title={unsupported ? 'The selected model does not support images' : description}
+            onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+            className={cn(
+              'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 transition-colors',
+              active
+                ? 'border-primary/50 bg-primary/15 text-foreground'
+                : 'border-border text-muted-foreground hover:text-foreground',
+              (disabled || unsupported) && 'opacity-50 cursor-not-allowed',
+            )}
+          >
+            <Icon className="h-3 w-3" />
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Button } from '../../../components/ui/button';
+import { Card } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { DEFAULT_AGENT_SETTINGS } from '../../../services/grok';
+import type { AgentSettings } from '../../../types/grok';
+
+/**
+ * Agent loop limits and sampling for the current conversation
+ */
+export function ConversationSettings({
+  settings,
+  onSave,
+  onClose,
+}: {
+  settings: AgentSettings;
+  onSave: (settings: AgentSettings) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<AgentSettings>(settings);
+
+  const setNumber = (field: 'maxSteps' | 'maxTokens' | 'temperature', value: string) => {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) setDraft((d) => ({ ...d, [field]: parsed }));
+  };
+
+  const save = () => {
+    onSave({
+      ...draft,
+      maxSteps: Math.min(50, Math.max(1, Math.round(draft.maxSteps))),
+      maxTokens: Math.max(64, Math.round(draft.maxTokens)),
+      temperature: Math.min(2, Math.max(0, draft.temperature)),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <Card className="w-[420px] max-w-[90vw] p-4 space-y-3">
+        <div className="text-lg font-semibold">Conversation Settings</div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-sm">Max steps</label>
+            <Input
+              type="number"
+              min={1}
+              max={50}
+              value={draft.maxSteps}
+              onChange={(e) => setNumber('maxSteps', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm">Max tokens per reply</label>
+            <Input
+              type="number"
+              min={64}
+              step={100}
+              value={draft.maxTokens}
+              onChange={(e) => setNumber('maxTokens', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm">Temperature</label>
+            <Input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => setNumber('temperature', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm">Response style</label>
+            <select
+              className="w-full h-10 rounded-md border bg-background px-3 text-sm"
+              value={draft.concise ? 'concise' : 'verbose'}
+              onChange={(e) => setDraft((d) => ({ ...d, concise: e.target.value === 'concise' }))}
+            >
+              <option value="concise">Concise</option>
+              <option value="verbose">Verbose</option>
+            </select>
+          </div>
+        </div>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={draft.stepMode}
+            onChange={(e) => setDraft((d) => ({ ...d, stepMode: e.target.checked }))}
+          />
+          <span>
+            Step mode
+            <span className="block text-xs text-muted-foreground">
+              Pause after each model turn to review, edit or reject its tool calls.
+            </span>
+          </span>
+        </label>
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_AGENT_SETTINGS)}>
+            Reset to defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={save}>Save</Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { CheckCircle2, Circle, ListChecks, Loader2, XCircle } from 'lucide-react';
+import { cn } from '../../../lib/utils';
+import type { PlanStep } from '../../../types/grok';
+
+function StepIcon({ status }: { status: PlanStep['status'] }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-3 w-3 text-green-500" />;
+    case 'in_progress':
+      return <Loader2 className="h-3 w-3 text-blue-400 animate-spin" />;
+    case 'failed':
+      return <XCircle className="h-3 w-3 text-red-500" />;
+    default:
+      return <Circle className="h-3 w-3 text-muted-foreground" />;
+  }
+}
+
+/**
+ * The plan the model keeps through the update_plan tool, as a live checklist
+ */
+export function PlanChecklist({ steps }: { steps: PlanStep[] }) {
+  const completed = steps.filter((step) => step.status === 'completed').length;
+
+  return (
+    <div className="px-4 py-2 border-t bg-muted/30">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Plan
+        </h3>
+        <span className="text-xs text-muted-foreground">
+          {completed}/{steps.length} done
+        </span>
+      </div>
+      <ol className="space-y-1 max-h-40 overflow-y-auto">
+        {steps.map((step, index) => (
+          <li key={index} className="flex items-start gap-2 text-xs">
+            <span className="mt-0.5 flex-shrink-0">
+              <StepIcon status={step.status} />
+            </span>
+            <span
+              className={cn(
+                step.status === 'completed' && 'text-muted-foreground line-through',
+                step.status === 'in_progress' && 'font-medium',
+                step.status === 'failed' && 'text-red-400',
+              )}
+            >
+              {step.title}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
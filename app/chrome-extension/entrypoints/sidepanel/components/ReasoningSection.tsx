@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { Brain, ChevronDown, ChevronRight } from 'lucide-react';
+
+/**
+ * Collapsible reasoning trace returned by reasoning models
+ */
+export function ReasoningSection({
+  reasoning,
+  tokens,
+  defaultOpen = false,
+}: {
+  reasoning: string;
+  tokens?: number;
+  defaultOpen?: boolean;
+}) {
+  const [open, setOpen] = useState(defaultOpen);
+
+  return (
+    <div className="mb-2 rounded border border-border/60 bg-background/40">
+      <button
+        type="button"
+        className="w-full flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setOpen((o) => !o)}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Brain className="h-3 w-3" />
+        <span className="font-medium">Reasoning</span>
+        {tokens ? <span className="ml-auto">{tokens.toLocaleString()} tokens</span> : null}
+      </button>
+      {open && (
+        <div className="px-2 pb-2 text-xs text-muted-foreground whitespace-pre-wrap max-h-48 overflow-y-auto">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Download, ShieldAlert, Trash2 } from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+import { Card } from '../../../components/ui/card';
+import { cn } from '../../../lib/utils';
+import { BACKGROUND_MESSAGE_TYPES } from '../../../common/message-types';
+import type { SecurityEvent, SecurityMetrics } from '../../../services/security-monitor';
+
+const severityClass: Record<SecurityEvent['severity'], string> = {
+  low: 'bg-gray-500/20 text-gray-400',
+  medium: 'bg-yellow-500/20 text-yellow-400',
+  high: 'bg-orange-500/20 text-orange-400',
+  critical: 'bg-red-500/20 text-red-400',
+};
+
+/**
+ * Security events recorded by the background security monitor, with resolve/export/clear actions
+ */
+export function SecurityView({ onClose }: { onClose: () => void }) {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [metrics, setMetrics] = useState<SecurityMetrics | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  async function loadEvents() {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: BACKGROUND_MESSAGE_TYPES.SECURITY_GET_EVENTS,
+        criteria: { limit: 200 },
+      });
+      if (response?.success) {
+        setEvents(response.events || []);
+        setMetrics(response.metrics || null);
+      }
+    } catch (error) {
+      console.error('Failed to load security events:', error);
+    }
+  }
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  async function resolveEvent(eventId: string) {
+    await chrome.runtime.sendMessage({
+      type: BACKGROUND_MESSAGE_TYPES.SECURITY_RESOLVE_EVENT,
+      eventId,
+    });
+    await loadEvents();
+  }
+
+  async function clearEvents() {
+    if (!confirm('Delete all recorded security events?')) return;
+    await chrome.runtime.sendMessage({ type: BACKGROUND_MESSAGE_TYPES.SECURITY_CLEAR_EVENTS });
+    await loadEvents();
+  }
+
+  async function exportReport() {
+    const response = await chrome.runtime.sendMessage({
+      type: BACKGROUND_MESSAGE_TYPES.SECURITY_EXPORT_REPORT,
+    });
+    if (!response?.success) return;
+
+    const blob = new Blob([JSON.stringify(response.report, null, 2)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `security-report-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const visibleEvents = showResolved ? events : events.filter((e) => !e.resolved);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <Card className="w-[500px] max-w-[90vw] max-h-[80vh] flex flex-col">
+        <div className="flex flex-row items-center justify-between p-4 border-b">
+          <h2 className="flex items-center gap-2 font-semibold">
+            <ShieldAlert className="h-5 w-5" />
+            Security
+          </h2>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={exportReport} title="Export report">
+              <Download className="h-4 w-4" />
+            </Button>
+            {events.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={clearEvents}
+                className="text-destructive hover:text-destructive"
+                title="Clear all events"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+        {metrics && (
+          <div className="flex items-center justify-between px-4 py-2 border-b text-xs text-muted-foreground">
+            <span>
+              Threat level:{' '}
+              <span className="font-medium text-foreground">{metrics.threatLevel}</span> (score{' '}
+              {metrics.suspiciousActivityScore})
+            </span>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showResolved}
+                onChange={(e) => setShowResolved(e.target.checked)}
+              />
+              Show resolved
+            </label>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto p-4">
+          {visibleEvents.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <ShieldAlert className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No open security events</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {visibleEvents.map((event) => (
+                <div
+                  key={event.id}
+                  className={cn(
+                    'p-3 rounded-lg border bg-card border-border text-xs',
+                    event.resolved && 'opacity-60',
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div
+                      className="flex-1 min-w-0 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className={cn('px-1 py-0.5 rounded', severityClass[event.severity])}>
+                          {event.severity}
+                        </span>
+                        <span className="font-medium text-sm truncate">{event.source}</span>
+                      </div>
+                      <div className="mt-1 text-muted-foreground">
+                        {event.type.replace('_', ' ')} ·{' '}
+                        {new Date(event.timestamp).toLocaleString()}
+                      </div>
+                    </div>
+                    {!event.resolved && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => resolveEvent(event.id)}
+                        className="h-6 px-2"
+                        title="Mark as resolved"
+                      >
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Resolve
+                      </Button>
+                    )}
+                  </div>
+                  {expandedId === event.id && (
+                    <pre className="mt-2 bg-muted rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                      {JSON.stringify(event.details, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { ReactNode } from 'react';
+import { BACKGROUND_MESSAGE_TYPES } from '../../../common/message-types';
+import { CITATION_PATTERN, CitationSource, citedSourceIds } from '../../../common/citations';
+import { cn } from '../../../lib/utils';
+
+const CITATION_HREF_PREFIX = '#cite-';
+
+/**
+ * Rewrite [src:<id>] markers as numbered markdown links the renderer turns into chips
+ */
+export function linkCitations(markdown: string): string {
+  const ids = citedSourceIds(markdown);
+  return markdown.replace(
+    CITATION_PATTERN,
+    (_marker, id: string) => ` [${ids.indexOf(id) + 1}](${CITATION_HREF_PREFIX}${id})`,
+  );
+}
+
+export function citationIdFromHref(href?: string): string | null {
+  return href?.startsWith(CITATION_HREF_PREFIX) ? href.slice(CITATION_HREF_PREFIX.length) : null;
+}
+
+function focusSource(source: CitationSource) {
+  chrome.runtime
+    .sendMessage({ type: BACKGROUND_MESSAGE_TYPES.FOCUS_CITATION_SOURCE, source })
+    .catch((error) => console.warn('Failed to open citation source:', error));
+}
+
+/**
+ * Inline citation: focuses the source tab and highlights the cited passage.
+ * Markers without a known source (e.g. while streaming) render as plain numbers.
+ */
+export function SourceChip({ source, children }: { source?: CitationSource; children: ReactNode }) {
+  const className =
+    'inline-flex items-center justify-center min-w-4 h-4 px-1 mx-0.5 rounded-full text-[10px] leading-none no-underline align-super';
+  if (!source) {
+    return <span className={cn(className, 'bg-muted-foreground/20')}>{children}</span>;
+  }
+
+  const tooltip = [source.title, source.url, source.passage && `“${source.passage}”`]
+    .filter(Boolean)
+    .join('\n');
+  return (
+    <button
+      type="button"
+      className={cn(className, 'bg-primary/20 text-primary hover:bg-primary/40 cursor-pointer')}
+      title={tooltip}
+      onClick={() => focusSource(source)}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ListChecks } from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { cn } from '../../../lib/utils';
+import type { GrokToolCall, ToolCallReview } from '../../../types/grok';
+
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args || '{}'), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+function isValidJson(text: string): boolean {
+  try {
+    JSON.parse(text || '{}');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Step mode: the tool calls proposed in one model turn, with editable arguments
+ */
+export function StepReviewCard({
+  toolCalls,
+  onSubmit,
+}: {
+  toolCalls: GrokToolCall[];
+  onSubmit: (reviews: ToolCallReview[]) => void;
+}) {
+  const [reviews, setReviews] = useState<ToolCallReview[]>(() =>
+    toolCalls.map((call) => ({
+      id: call.id,
+      approved: true,
+      arguments: formatArguments(call.function.arguments),
+    })),
+  );
+
+  const updateReview = (id: string, update: Partial<ToolCallReview>) => {
+    setReviews((prev) => prev.map((r) => (r.id === id ? { ...r, ...update } : r)));
+  };
+
+  const hasInvalidArgs = reviews.some((r) => r.approved && !isValidJson(r.arguments));
+
+  return (
+    <Card className="border-blue-500/30 bg-blue-500/5">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ListChecks className="h-4 w-4 text-blue-400" />
+          Review {toolCalls.length} proposed tool call{toolCalls.length === 1 ? '' : 's'}
+        </div>
+        {toolCalls.map((call, index) => {
+          const review = reviews[index];
+          const invalid = review.approved && !isValidJson(review.arguments);
+          return (
+            <div key={call.id} className="space-y-1">
+              <label className="flex items-center gap-2 text-xs font-medium">
+                <input
+                  type="checkbox"
+                  checked={review.approved}
+                  onChange={(e) => updateReview(call.id, { approved: e.target.checked })}
+                />
+                {call.function.name}
+              </label>
+              <textarea
+                className={cn(
+                  'w-full text-xs font-mono bg-muted rounded p-2 max-h-40 min-h-16 resize-y',
+                  invalid && 'border border-destructive',
+                  !review.approved && 'opacity-50',
+                )}
+                value={review.arguments}
+                disabled={!review.approved}
+                onChange={(e) => updateReview(call.id, { arguments: e.target.value })}
+              />
+              {invalid && (
+                <div className="text-xs text-destructive">Arguments are not valid JSON</div>
+              )}
+            </div>
+          );
+        })}
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onSubmit(reviews.map((r) => ({ ...r, approved: false })))}
+          >
+            Reject all
+          </Button>
+          <Button
+            size="sm"
+            disabled={hasInvalidArgs}
+            onClick={() =>
+              // Re-serialize so the model sees compact JSON rather than the pretty-printed edit
+              onSubmit(
+                reviews.map((r) =>
+                  r.approved
+                    ? { ...r, arguments: JSON.stringify(JSON.parse(r.arguments || '{}')) }
+                    : r,
+                ),
+              )
+            }
+          >
+            Run selected
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
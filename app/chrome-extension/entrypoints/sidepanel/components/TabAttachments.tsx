@@ -0,0 +1,115 @@
+import { AppWindow, X } from 'lucide-react';
+import { cn } from '../../../lib/utils';
+import type { OpenTab } from '../../../types/grok';
+
+// "@" starting the last word of the composer opens the picker with the rest as query
+const TAB_MENTION_PATTERN = /(?:^|\s)@(\S*)$/;
+
+export function tabMentionQuery(input: string): string | null {
+  return input.match(TAB_MENTION_PATTERN)?.[1] ?? null;
+}
+
+export function stripTabMention(input: string): string {
+  return input.replace(/@\S*$/, '');
+}
+
+export function filterTabs(tabs: OpenTab[], query: string): OpenTab[] {
+  const needle = query.toLowerCase();
+  return tabs.filter(
+    (tab) => tab.title.toLowerCase().includes(needle) || tab.url.toLowerCase().includes(needle),
+  );
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Tab attached to a message; removable while composing
+ */
+export function TabChip({
+  tab,
+  onRemove,
+}: {
+  tab: Pick<OpenTab, 'title' | 'url'>;
+  onRemove?: () => void;
+}) {
+  return (
+    <span
+      className="inline-flex max-w-[12rem] items-center gap-1 rounded-full border border-primary/40 bg-primary/10 px-2 py-0.5 text-xs"
+      title={`${tab.title}\n${tab.url}`}
+    >
+      <AppWindow className="h-3 w-3 shrink-0" />
+      <span className="truncate">{tab.title || hostname(tab.url)}</span>
+      {onRemove && (
+        <button
+          type="button"
+          className="shrink-0 text-muted-foreground hover:text-foreground"
+          onClick={onRemove}
+          title="Remove tab"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Popover listing open tabs matching the "@" query
+ */
+export function TabPicker({
+  tabs,
+  attachedIds,
+  limitReached,
+  onPick,
+}: {
+  tabs: OpenTab[];
+  attachedIds: number[];
+  limitReached: boolean;
+  onPick: (tab: OpenTab) => void;
+}) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-md border bg-background shadow-lg z-10">
+      {tabs.length === 0 ? (
+        <div className="px-3 py-2 text-xs text-muted-foreground">No matching tabs</div>
+      ) : (
+        tabs.map((tab) => {
+          const attached = attachedIds.includes(tab.tabId);
+          const disabled = attached || limitReached;
+          return (
+            <button
+              key={tab.tabId}
+              type="button"
+              disabled={disabled}
+              // Keep focus in the composer so typing continues after a pick
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onPick(tab)}
+              className={cn(
+                'flex w-full flex-col items-start px-3 py-1.5 text-left hover:bg-muted',
+                disabled && 'opacity-50 cursor-not-allowed',
+              )}
+            >
+              <span className="w-full truncate text-sm">
+                {tab.title || hostname(tab.url)}
+                {tab.active && <span className="ml-1 text-xs text-muted-foreground">(active)</span>}
+              </span>
+              <span className="w-full truncate text-xs text-muted-foreground">
+                {attached ? 'Already attached' : hostname(tab.url)}
+              </span>
+            </button>
+          );
+        })
+      )}
+      {limitReached && (
+        <div className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+          Attachment limit reached
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Lock,
+  Pencil,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+import { cn } from '../../../lib/utils';
+import {
+  blockingDependencies,
+  TodoEdit,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from '../../../common/todos';
+
+const STATUSES: TodoStatus[] = ['pending', 'in_progress', 'completed', 'cancelled'];
+const PRIORITIES: TodoPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const STATUS_STYLES: Record<TodoStatus, string> = {
+  pending: 'bg-muted/50 border border-border',
+  in_progress: 'bg-blue-500/10 border border-blue-500/20',
+  completed: 'bg-green-500/10 border border-green-500/20',
+  cancelled: 'bg-muted/30 border border-border opacity-60',
+};
+
+const PRIORITY_STYLES: Record<TodoPriority, string> = {
+  urgent: 'bg-red-500/20 text-red-400',
+  high: 'bg-orange-500/20 text-orange-400',
+  medium: 'bg-yellow-500/20 text-yellow-400',
+  low: 'bg-gray-500/20 text-gray-400',
+};
+
+function TodoRow({
+  todo,
+  todos,
+  index,
+  onUpdate,
+  onMove,
+  onDelete,
+}: {
+  todo: TodoItem;
+  todos: TodoItem[];
+  index: number;
+  onUpdate: (changes: Extract<TodoEdit, { type: 'update' }>['changes']) => void;
+  onMove: (offset: number) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(todo.title);
+  const blockers = blockingDependencies(todo, todos);
+  // Started or done before its dependencies, e.g. after one of them was reopened
+  const aheadOfBlockers =
+    blockers.length > 0 && (todo.status === 'in_progress' || todo.status === 'completed');
+
+  const saveTitle = () => {
+    setEditing(false);
+    if (draft.trim() && draft.trim() !== todo.title) onUpdate({ title: draft.trim() });
+    else setDraft(todo.title);
+  };
+
+  return (
+    <div className={cn('flex items-start gap-2 p-2 rounded text-xs', STATUS_STYLES[todo.status])}>
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <input
+            autoFocus
+            className="w-full rounded border bg-background px-1 py-0.5"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={saveTitle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveTitle();
+              if (e.key === 'Escape') {
+                setDraft(todo.title);
+                setEditing(false);
+              }
+            }}
+          />
+        ) : (
+          <div
+            className={cn(
+              'font-medium truncate',
+              todo.status === 'completed' && 'line-through text-muted-foreground',
+            )}
+            title={todo.notes ? `${todo.title}\n\n${todo.notes}` : todo.title}
+          >
+            {todo.title}
+          </div>
+        )}
+        <div className="flex items-center gap-2 mt-1 text-muted-foreground">
+          <select
+            className={cn('rounded px-1 py-0.5 bg-transparent', PRIORITY_STYLES[todo.priority])}
+            value={todo.priority}
+            onChange={(e) => onUpdate({ priority: e.target.value as TodoPriority })}
+          >
+            {PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>
+                {priority}
+              </option>
+            ))}
+          </select>
+          <select
+            className="rounded px-1 py-0.5 bg-transparent border border-border"
+            value={todo.status}
+            onChange={(e) => onUpdate({ status: e.target.value as TodoStatus })}
+          >
+            {STATUSES.map((status) => (
+              <option
+                key={status}
+                value={status}
+                // A blocked task cannot start or finish before its dependencies
+                disabled={
+                  blockers.length > 0 && (status === 'in_progress' || status === 'completed')
+                }
+              >
+                {status.replace('_', ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+        {aheadOfBlockers ? (
+          <div className="flex items-center gap-1 mt-1 text-yellow-500">
+            <AlertTriangle className="h-3 w-3 shrink-0" />
+            <span className="truncate">
+              Marked {todo.status.replace('_', ' ')} but {blockers.map((t) => t.title).join(', ')}{' '}
+              is not completed
+            </span>
+          </div>
+        ) : (
+          blockers.length > 0 && (
+            <div className="flex items-center gap-1 mt-1 text-muted-foreground">
+              <Lock className="h-3 w-3 shrink-0" />
+              <span className="truncate">Blocked by {blockers.map((t) => t.title).join(', ')}</span>
+            </div>
+          )
+        )}
+      </div>
+      <div className="flex shrink-0 items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          onClick={() => {
+            setDraft(todo.title);
+            setEditing(true);
+          }}
+          title="Edit task"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          title="Move up"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          onClick={() => onMove(1)}
+          disabled={index === todos.length - 1}
+          title="Move down"
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 w-5 p-0"
+          onClick={onDelete}
+          title="Delete task"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The conversation's TODO list; the user can edit, reorder and remove tasks by hand
+ */
+export function TodoPanel({
+  todos,
+  onEdit,
+}: {
+  todos: TodoItem[];
+  onEdit: (edit: TodoEdit) => void;
+}) {
+  const completed = todos.filter((todo) => todo.status === 'completed').length;
+
+  return (
+    <div className="px-4 py-2 border-t bg-muted/30">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium flex items-center gap-2">
+          <CheckCircle2 className="h-4 w-4" />
+          Task Progress
+          <span className="text-xs font-normal text-muted-foreground">
+            {completed}/{todos.length}
+          </span>
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onEdit({ type: 'clear_completed' })}
+          disabled={completed === 0}
+          className="h-6 w-6 p-0"
+          title="Clear completed tasks"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {todos.map((todo, index) => (
+          <TodoRow
+            key={todo.id}
+            todo={todo}
+            todos={todos}
+            index={index}
+            onUpdate={(changes) => onEdit({ type: 'update', id: todo.id, changes })}
+            onMove={(offset) => onEdit({ type: 'move', id: todo.id, offset })}
+            onDelete={() => onEdit({ type: 'remove', id: todo.id })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
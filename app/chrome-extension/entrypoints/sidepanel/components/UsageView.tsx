@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Button } from '../../../components/ui/button';
+import { Card } from '../../../components/ui/card';
+import { cn } from '../../../lib/utils';
+import {
+  DailyUsage,
+  dayKey,
+  formatCost,
+  getDailyUsage,
+  getSpendLimits,
+  SpendLimits,
+} from '../../../services/usage';
+
+const CHART_DAYS = 14;
+
+/**
+ * Daily spend over the last two weeks, with this month's total against the spend caps
+ */
+export function UsageView({ onClose }: { onClose: () => void }) {
+  const [daily, setDaily] = useState<Record<string, DailyUsage>>({});
+  const [limits, setLimits] = useState<SpendLimits | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      setDaily(await getDailyUsage());
+      setLimits(await getSpendLimits());
+    })();
+  }, []);
+
+  const days = Array.from({ length: CHART_DAYS }, (_, i) =>
+    dayKey(new Date(Date.now() - (CHART_DAYS - 1 - i) * 86_400_000)),
+  );
+  const maxCost = Math.max(...days.map((day) => daily[day]?.cost || 0), limits?.daily || 0);
+  const today = dayKey();
+  const spentToday = daily[today]?.cost || 0;
+  const spentMonth = Object.entries(daily)
+    .filter(([day]) => day.startsWith(today.slice(0, 7)))
+    .reduce((sum, [, entry]) => sum + entry.cost, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <Card className="w-[500px] max-w-[90vw] max-h-[80vh] flex flex-col">
+        <div className="flex flex-row items-center justify-between p-4 border-b">
+          <h2 className="flex items-center gap-2 font-semibold">
+            <BarChart3 className="h-5 w-5" />
+            Usage
+          </h2>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-3 px-4 py-3 border-b text-xs">
+          <div>
+            <div className="text-muted-foreground">Today</div>
+            <div className="text-base font-medium">
+              {formatCost(spentToday)}
+              {limits && limits.daily > 0 && (
+                <span className="text-xs text-muted-foreground"> / {formatCost(limits.daily)}</span>
+              )}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">This month</div>
+            <div className="text-base font-medium">
+              {formatCost(spentMonth)}
+              {limits && limits.monthly > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {' '}
+                  / {formatCost(limits.monthly)}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="p-4">
+          <div className="flex items-end gap-1 h-32">
+            {days.map((day) => {
+              const entry = daily[day];
+              const cost = entry?.cost || 0;
+              const overCap = !!limits && limits.daily > 0 && cost >= limits.daily;
+              return (
+                <div
+                  key={day}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${day}: ${formatCost(cost)}, ${entry?.requests || 0} requests, ${(
+                    (entry?.promptTokens || 0) + (entry?.completionTokens || 0)
+                  ).toLocaleString()} tokens`}
+                >
+                  <div
+                    className={cn(
+                      'rounded-t',
+                      overCap ? 'bg-red-500/70' : 'bg-primary/60',
+                      day === today && !overCap && 'bg-primary',
+                    )}
+                    style={{ height: maxCost > 0 ? `${(cost / maxCost) * 100}%` : 0 }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-between mt-1 text-[10px] text-muted-foreground">
+            <span>{days[0].slice(5)}</span>
+            <span>{today.slice(5)}</span>
+          </div>
+          <p className="mt-3 text-xs text-muted-foreground">
+            Costs are estimated from list prices. Set prices and spend caps on the options page.
+          </p>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -125,23 +125,27 @@ if (window.__CLICK_HELPER_INITIALIZED__) {
         });
       }
 
-      if (element && elementInfo.clickMethod === 'selector') {
-        element.click();
-      } else {
-        simulateClick(clickX, clickY);
-      }
-
-      // Wait for navigation if needed
       let navigationOccurred = false;
-      if (waitForNavigation) {
-        navigationOccurred = await navigationPromise;
-      }
+      const effect = await observeEffect(async () => {
+        if (element && elementInfo.clickMethod === 'selector') {
+          element.click();
+        } else {
+          simulateClick(clickX, clickY);
+        }
+
+        // Wait for navigation if needed
+        if (waitForNavigation) {
+          navigationOccurred = await navigationPromise;
+        }
+      });
 
       return {
         success: true,
         message: 'Element clicked successfully',
         elementInfo,
         navigationOccurred,
+        point: { x: clickX, y: clickY },
+        effect,
       };
     } catch (error) {
       return {
@@ -209,6 +213,371 @@ if (window.__CLICK_HELPER_INITIALIZED__) {
     return element === elementAtPoint || element.contains(elementAtPoint);
   }
 
+  // How long to watch the page for changes after dispatching synthetic events
+  const EFFECT_WINDOW_MS = 300;
+  const DRAG_STEPS = 10;
+  const BUTTON_CODES = { left: 0, middle: 1, right: 2 };
+  const BUTTON_MASKS = { left: 1, middle: 4, right: 2 };
+
+  const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Summarize an element for tool results
+   * @param {Element} element - The element to describe
+   * @returns {Object|null} - Tag, id, text and bounding rect of the element
+   */
+  function describeElement(element) {
+    if (!element) return null;
+    const rect = element.getBoundingClientRect();
+    return {
+      tagName: element.tagName,
+      id: element.id,
+      className: element.className,
+      text: element.textContent?.trim().substring(0, 100) || '',
+      rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+    };
+  }
+
+  /**
+   * Resolve a selector or coordinates to a viewport point, scrolling the element into view
+   * @param {string} selector - CSS selector of the element
+   * @param {Object} coordinates - Viewport coordinates used instead of the selector
+   * @param {boolean} requireVisible - Fail when the element is covered or hidden
+   * @returns {Promise<Object>} - { element, point, elementInfo } or { error }
+   */
+  async function resolveTarget(selector, coordinates, requireVisible = true) {
+    if (coordinates && typeof coordinates.x === 'number' && typeof coordinates.y === 'number') {
+      const element = document.elementFromPoint(coordinates.x, coordinates.y);
+      return {
+        element,
+        point: { x: coordinates.x, y: coordinates.y },
+        elementInfo: describeElement(element),
+      };
+    }
+    if (!selector) {
+      return { error: 'Either a selector or coordinates must be provided' };
+    }
+
+    const element = document.querySelector(selector);
+    if (!element) {
+      return { error: `Element with selector "${selector}" not found` };
+    }
+    element.scrollIntoView({ behavior: 'auto', block: 'center', inline: 'center' });
+    await sleep(100);
+    if (requireVisible && !isElementVisible(element)) {
+      return {
+        error: `Element with selector "${selector}" is not visible`,
+        elementInfo: describeElement(element),
+      };
+    }
+    const rect = element.getBoundingClientRect();
+    return {
+      element,
+      point: { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+      elementInfo: describeElement(element),
+    };
+  }
+
+  /**
+   * Run synthetic events and report whether the page reacted: DOM mutations, a URL change or
+   * the page starting to unload. Resolves as soon as a change is seen, so the response still
+   * reaches the extension when the page navigates away.
+   * @param {Function} run - Dispatches the events
+   * @returns {Promise<boolean>} - Whether anything changed within the effect window
+   */
+  async function observeEffect(run) {
+    const urlBefore = location.href;
+    let changed = false;
+    let notify = () => {};
+    const markChanged = () => {
+      changed = true;
+      notify();
+    };
+    const observer = new MutationObserver(markChanged);
+    observer.observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    window.addEventListener('beforeunload', markChanged);
+    try {
+      await run();
+      if (!changed) {
+        await new Promise((resolve) => {
+          notify = resolve;
+          setTimeout(resolve, EFFECT_WINDOW_MS);
+        });
+      }
+    } finally {
+      observer.disconnect();
+      window.removeEventListener('beforeunload', markChanged);
+    }
+    return changed || location.href !== urlBefore;
+  }
+
+  /**
+   * Dispatch a mouse or pointer event at the element under a point
+   * @param {string} type - Event type, e.g. 'mousedown' or 'pointermove'
+   * @param {Object} point - Viewport coordinates
+   * @param {Object} options - button, buttons, detail and bubbles overrides
+   * @returns {Element} - The element that received the event
+   */
+  function dispatchMouse(type, point, options = {}) {
+    const target = document.elementFromPoint(point.x, point.y) || document.body;
+    const init = {
+      view: window,
+      bubbles: options.bubbles ?? true,
+      cancelable: true,
+      composed: true,
+      clientX: point.x,
+      clientY: point.y,
+      button: options.button ?? 0,
+      buttons: options.buttons ?? 0,
+      detail: options.detail ?? 0,
+    };
+    const event = type.startsWith('pointer')
+      ? new PointerEvent(type, { ...init, pointerId: 1, pointerType: 'mouse', isPrimary: true })
+      : new MouseEvent(type, init);
+    target.dispatchEvent(event);
+    return target;
+  }
+
+  function dispatchHover(point) {
+    dispatchMouse('pointerover', point);
+    dispatchMouse('pointerenter', point, { bubbles: false });
+    dispatchMouse('mouseover', point);
+    dispatchMouse('mouseenter', point, { bubbles: false });
+    dispatchMouse('pointermove', point);
+    dispatchMouse('mousemove', point);
+  }
+
+  /**
+   * Click with any button, once or twice, at a selector or coordinates
+   * @param {Object} request - selector, coordinates, button, clickCount and dispatch
+   * @returns {Promise<Object>} - Result with the click point and whether the page reacted
+   */
+  async function mouseClick({
+    selector,
+    coordinates,
+    button = 'left',
+    clickCount = 1,
+    dispatch = true,
+  }) {
+    const target = await resolveTarget(selector, coordinates);
+    if (target.error) return target;
+    if (!dispatch) {
+      return { success: true, point: target.point, elementInfo: target.elementInfo };
+    }
+
+    const code = BUTTON_CODES[button] ?? 0;
+    const mask = BUTTON_MASKS[button] ?? 1;
+    const effect = await observeEffect(() => {
+      for (let detail = 1; detail <= clickCount; detail++) {
+        dispatchMouse('pointerdown', target.point, { button: code, buttons: mask, detail });
+        dispatchMouse('mousedown', target.point, { button: code, buttons: mask, detail });
+        dispatchMouse('pointerup', target.point, { button: code, detail });
+        dispatchMouse('mouseup', target.point, { button: code, detail });
+        dispatchMouse(button === 'left' ? 'click' : 'auxclick', target.point, {
+          button: code,
+          detail,
+        });
+      }
+      if (button === 'left' && clickCount > 1) {
+        dispatchMouse('dblclick', target.point, { detail: clickCount });
+      }
+      if (button === 'right') {
+        dispatchMouse('contextmenu', target.point, { button: code });
+      }
+    });
+
+    return {
+      success: true,
+      message: `${clickCount > 1 ? 'Double' : 'Single'} ${button} click dispatched`,
+      point: target.point,
+      elementInfo: target.elementInfo,
+      effect,
+    };
+  }
+
+  /**
+   * Move the pointer over an element to open hover menus and tooltips
+   * @param {Object} request - selector, coordinates and dispatch
+   * @returns {Promise<Object>} - Result with the hover point and whether the page reacted
+   */
+  async function hoverElement({ selector, coordinates, dispatch = true }) {
+    const target = await resolveTarget(selector, coordinates);
+    if (target.error) return target;
+    if (!dispatch) {
+      return { success: true, point: target.point, elementInfo: target.elementInfo };
+    }
+
+    const effect = await observeEffect(() => dispatchHover(target.point));
+    return {
+      success: true,
+      message: 'Hover events dispatched',
+      point: target.point,
+      elementInfo: target.elementInfo,
+      effect,
+    };
+  }
+
+  /**
+   * Drag from one element or point to another. Draggable sources get the HTML5 drag and drop
+   * events with a shared DataTransfer; anything else gets a pointer press, move and release.
+   * @param {Object} request - from/to selectors or coordinates and dispatch
+   * @returns {Promise<Object>} - Result with both points and whether the page reacted
+   */
+  async function dragElement({
+    fromSelector,
+    fromCoordinates,
+    toSelector,
+    toCoordinates,
+    dispatch = true,
+  }) {
+    const source = await resolveTarget(fromSelector, fromCoordinates);
+    if (source.error) return source;
+    const target = await resolveTarget(toSelector, toCoordinates, false);
+    if (target.error) return target;
+
+    // Bringing the target into view may have moved the source
+    if (source.element && fromSelector) {
+      const rect = source.element.getBoundingClientRect();
+      source.point = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    }
+    const from = source.point;
+    const to = target.point;
+    const result = {
+      success: true,
+      from,
+      to,
+      sourceInfo: source.elementInfo,
+      targetInfo: target.elementInfo,
+    };
+    if (!dispatch) return result;
+
+    const draggable = source.element?.closest('[draggable="true"]');
+    const effect = await observeEffect(async () => {
+      if (draggable) {
+        const dataTransfer = new DataTransfer();
+        const fire = (element, type, point) =>
+          element.dispatchEvent(
+            new DragEvent(type, {
+              bubbles: true,
+              cancelable: true,
+              composed: true,
+              clientX: point.x,
+              clientY: point.y,
+              dataTransfer,
+            }),
+          );
+        fire(draggable, 'dragstart', from);
+        await sleep(50);
+        const dropTarget = document.elementFromPoint(to.x, to.y) || document.body;
+        fire(dropTarget, 'dragenter', to);
+        fire(dropTarget, 'dragover', to);
+        fire(dropTarget, 'drop', to);
+        fire(draggable, 'dragend', to);
+        return;
+      }
+
+      dispatchHover(from);
+      dispatchMouse('pointerdown', from, { buttons: 1, detail: 1 });
+      dispatchMouse('mousedown', from, { buttons: 1, detail: 1 });
+      for (let step = 1; step <= DRAG_STEPS; step++) {
+        const point = {
+          x: from.x + ((to.x - from.x) * step) / DRAG_STEPS,
+          y: from.y + ((to.y - from.y) * step) / DRAG_STEPS,
+        };
+        dispatchMouse('pointermove', point, { buttons: 1 });
+        dispatchMouse('mousemove', point, { buttons: 1 });
+        await sleep(16);
+      }
+      dispatchMouse('pointerup', to, { detail: 1 });
+      dispatchMouse('mouseup', to, { detail: 1 });
+    });
+
+    return {
+      ...result,
+      message: draggable ? 'HTML5 drag and drop dispatched' : 'Pointer drag dispatched',
+      effect,
+    };
+  }
+
+  /**
+   * Scroll an element into view, or scroll the page or a container by an offset or to an edge
+   * @param {Object} request - selector, container, deltaX, deltaY, position and dispatch
+   * @returns {Promise<Object>} - Scroll positions before and after, and a point inside the scroller
+   */
+  async function scrollElement({
+    selector,
+    container,
+    deltaX = 0,
+    deltaY = 0,
+    position,
+    dispatch = true,
+  }) {
+    if (selector) {
+      const element = document.querySelector(selector);
+      if (!element) {
+        return { error: `Element with selector "${selector}" not found` };
+      }
+      const before = element.getBoundingClientRect().top;
+      if (dispatch) {
+        element.scrollIntoView({ behavior: 'auto', block: 'center', inline: 'nearest' });
+        await sleep(100);
+      }
+      return {
+        success: true,
+        message: 'Scrolled element into view',
+        moved: element.getBoundingClientRect().top !== before,
+        elementInfo: describeElement(element),
+      };
+    }
+
+    const scroller = container
+      ? document.querySelector(container)
+      : document.scrollingElement || document.documentElement;
+    if (!scroller) {
+      return { error: `Scroll container "${container}" not found` };
+    }
+    const positionOf = () => ({
+      x: scroller.scrollLeft,
+      y: scroller.scrollTop,
+      scrollHeight: scroller.scrollHeight,
+      atBottom: scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1,
+    });
+    const before = positionOf();
+
+    if (dispatch) {
+      if (position === 'top') {
+        scroller.scrollTo({ top: 0, behavior: 'auto' });
+      } else if (position === 'bottom') {
+        scroller.scrollTo({ top: scroller.scrollHeight, behavior: 'auto' });
+      } else {
+        scroller.scrollBy({ left: deltaX, top: deltaY, behavior: 'auto' });
+      }
+      // Give scroll listeners (e.g. infinite scroll loaders) a moment to run
+      await sleep(EFFECT_WINDOW_MS);
+    }
+
+    const after = positionOf();
+    const rect = container
+      ? scroller.getBoundingClientRect()
+      : { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight };
+    return {
+      success: true,
+      before,
+      after,
+      moved: after.x !== before.x || after.y !== before.y,
+      point: { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+    };
+  }
+
+  const handleError = (sendResponse) => (error) => {
+    sendResponse({ error: `Unexpected error: ${error.message}` });
+  };
+
   // Listen for messages from the extension
   chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     if (request.action === 'clickElement') {
@@ -225,7 +594,24 @@ if (window.__CLICK_HELPER_INITIALIZED__) {
           });
         });
       return true; // Indicates async response
-    } else if (request.action === 'chrome_click_element_ping') {
+    } else if (request.action === 'mouseClick') {
+      mouseClick(request).then(sendResponse).catch(handleError(sendResponse));
+      return true;
+    } else if (request.action === 'hoverElement') {
+      hoverElement(request).then(sendResponse).catch(handleError(sendResponse));
+      return true;
+    } else if (request.action === 'dragElement') {
+      dragElement(request).then(sendResponse).catch(handleError(sendResponse));
+      return true;
+    } else if (request.action === 'scrollElement') {
+      scrollElement(request).then(sendResponse).catch(handleError(sendResponse));
+      return true;
+    } else if (
+      request.action === 'chrome_click_element_ping' ||
+      request.action === 'chrome_scroll_ping' ||
+      request.action === 'chrome_hover_ping' ||
+      request.action === 'chrome_drag_and_drop_ping'
+    ) {
       sendResponse({ status: 'pong' });
       return false;
     }
@@ -6,13 +6,19 @@ if (window.__FILL_HELPER_INITIALIZED__) {
   // Already initialized, skip
 } else {
   window.__FILL_HELPER_INITIALIZED__ = true;
+
+  // Input types whose value can be typed with the keyboard
+  const TYPABLE_INPUT_TYPES = ['text', 'email', 'password', 'number', 'search', 'tel', 'url'];
+
   /**
    * Fill an input element with the specified value
    * @param {string} selector - CSS selector for the element to fill
    * @param {string} value - Value to fill into the element
+   * @param {boolean} dispatch - Set the value with synthetic events; when false, a typable
+   *   element is only focused and selected so the extension can type the value as trusted input
    * @returns {Promise<Object>} - Result of the fill operation
    */
-  async function fillElement(selector, value) {
+  async function fillElement(selector, value, dispatch = true) {
     try {
       // Find the element
       const element = document.querySelector(selector);
@@ -68,9 +74,9 @@ if (window.__FILL_HELPER_INITIALIZED__) {
         'color',
       ];
 
-      if (!validTags.includes(element.tagName)) {
+      if (!validTags.includes(element.tagName) && !element.isContentEditable) {
         return {
-          error: `Element with selector "${selector}" is not a fillable element (must be INPUT, TEXTAREA, or SELECT)`,
+          error: `Element with selector "${selector}" is not a fillable element (must be INPUT, TEXTAREA, SELECT, or contenteditable)`,
           elementInfo,
         };
       }
@@ -94,6 +100,31 @@ if (window.__FILL_HELPER_INITIALIZED__) {
       // Focus the element
       element.focus();
 
+      const canType =
+        element.tagName === 'TEXTAREA' ||
+        (element.tagName === 'INPUT' && TYPABLE_INPUT_TYPES.includes(element.type)) ||
+        element.isContentEditable;
+      // Rich text editors only take typed input
+      if (canType && (!dispatch || element.isContentEditable)) {
+        // Select the current content so typing replaces it
+        if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          const selection = window.getSelection();
+          selection.removeAllRanges();
+          selection.addRange(range);
+        } else {
+          element.select();
+        }
+        return {
+          success: true,
+          message: 'Element focused for typing',
+          elementInfo,
+          canType,
+          needsTyping: true,
+        };
+      }
+
       // Fill the element based on its type
       if (element.tagName === 'SELECT') {
         // For select elements, find the option with matching value or text
@@ -133,6 +164,10 @@ if (window.__FILL_HELPER_INITIALIZED__) {
       // Blur the element
       element.blur();
 
+      // Controlled inputs (e.g. React) reset values that were set without a real input event
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const effect = element.tagName === 'SELECT' || element.value === value;
+
       return {
         success: true,
         message: 'Element filled successfully',
@@ -140,6 +175,8 @@ if (window.__FILL_HELPER_INITIALIZED__) {
           ...elementInfo,
           value: element.value, // Include the final value in the response
         },
+        canType,
+        effect,
       };
     } catch (error) {
       return {
@@ -189,7 +226,7 @@ if (window.__FILL_HELPER_INITIALIZED__) {
   // Listen for messages from the extension
   chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     if (request.action === 'fillElement') {
-      fillElement(request.selector, request.value)
+      fillElement(request.selector, request.value, request.dispatch)
         .then(sendResponse)
         .catch((error) => {
           sendResponse({
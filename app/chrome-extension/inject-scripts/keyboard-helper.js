@@ -173,14 +173,68 @@ if (window.__KEYBOARD_HELPER_INITIALIZED__) {
     }
   }
 
+  // How long to watch the page for changes after the synthetic key events
+  const EFFECT_WINDOW_MS = 300;
+
+  /**
+   * Start watching the page for anything a key press could change: DOM mutations, the focused
+   * element or its value, the URL, or the page starting to unload
+   * @returns {Function} - Stops watching and resolves to whether anything changed
+   */
+  function watchForEffect() {
+    const before = {
+      url: location.href,
+      active: document.activeElement,
+      value: document.activeElement?.value,
+    };
+    let changed = false;
+    let notify = () => {};
+    const markChanged = () => {
+      changed = true;
+      notify();
+    };
+    const observer = new MutationObserver(markChanged);
+    observer.observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    window.addEventListener('beforeunload', markChanged);
+
+    return async () => {
+      if (!changed) {
+        await new Promise((resolve) => {
+          notify = resolve;
+          setTimeout(resolve, EFFECT_WINDOW_MS);
+        });
+      }
+      observer.disconnect();
+      window.removeEventListener('beforeunload', markChanged);
+      return (
+        changed ||
+        location.href !== before.url ||
+        document.activeElement !== before.active ||
+        document.activeElement?.value !== before.value
+      );
+    };
+  }
+
   /**
    * Simulate keyboard events on an element or document
    * @param {string} keysSequenceString - String representation of key(s) (e.g., "Enter", "Ctrl+C, A, B")
    * @param {Element} targetElement - Element to dispatch events on (optional)
    * @param {number} delay - Delay between key sequences in milliseconds (optional)
+   * @param {boolean} dispatch - Dispatch the events; when false, only focus the target and
+   *   return the parsed keys so the extension can send them as trusted input
    * @returns {Promise<Object>} - Result of the keyboard operation
    */
-  async function simulateKeyboard(keysSequenceString, targetElement = null, delay = 0) {
+  async function simulateKeyboard(
+    keysSequenceString,
+    targetElement = null,
+    delay = 0,
+    dispatch = true,
+  ) {
     try {
       const element = targetElement || document.activeElement || document.body;
 
@@ -195,6 +249,30 @@ if (window.__KEYBOARD_HELPER_INITIALIZED__) {
         .filter((k) => k.length > 0);
       const operationResults = [];
 
+      if (!dispatch) {
+        const presses = keyCombinations.map(parseSingleKeyCombination);
+        const invalid = keyCombinations.filter((_, i) => !presses[i]);
+        if (invalid.length > 0) {
+          return {
+            success: false,
+            error: `Invalid key string or combination: ${invalid.join(', ')}`,
+            results: [],
+          };
+        }
+        return {
+          success: true,
+          message: 'Target focused for trusted key input',
+          presses,
+          targetElement: {
+            tagName: element.tagName,
+            id: element.id,
+            className: element.className,
+            type: element.type,
+          },
+        };
+      }
+
+      const stopWatching = watchForEffect();
       for (let i = 0; i < keyCombinations.length; i++) {
         const comboString = keyCombinations[i];
         const parsedKeyInfo = parseSingleKeyCombination(comboString);
@@ -229,6 +307,7 @@ if (window.__KEYBOARD_HELPER_INITIALIZED__) {
 
       // Check if all individual operations were successful
       const overallSuccess = operationResults.every((r) => r.success);
+      const effect = await stopWatching();
 
       return {
         success: overallSuccess,
@@ -236,6 +315,7 @@ if (window.__KEYBOARD_HELPER_INITIALIZED__) {
           ? `Keyboard events simulated successfully: ${keysSequenceString}`
           : `Some keyboard events failed for: ${keysSequenceString}`,
         results: operationResults, // Detailed results for each key combination
+        effect,
         targetElement: {
           tagName: element.tagName,
           id: element.id,
@@ -269,7 +349,7 @@ if (window.__KEYBOARD_HELPER_INITIALIZED__) {
         }
       }
 
-      simulateKeyboard(request.keys, targetEl, request.delay)
+      simulateKeyboard(request.keys, targetEl, request.delay, request.dispatch)
         .then(sendResponse)
         .catch((error) => {
           // This catch is for unexpected errors in simulateKeyboard promise chain itself
@@ -2789,11 +2789,66 @@ if (window.__WEB_FETCHER_HELPER_INITIALIZED__) {
       return true; // Async response
     }
 
+    // Metadata and focused form field for the side panel's browser context
+    else if (request.action === 'getPageContext') {
+      try {
+        sendResponse({
+          success: true,
+          metadata: extractPageMetadata(),
+          focusedField: describeFocusedField(),
+        });
+      } catch (error) {
+        sendResponse({
+          success: false,
+          error: `Failed to get page context: ${error.message}`,
+        });
+      }
+    }
+
     // Interactive elements feature has been removed
 
     return true; // Async response
   });
 
+  /**
+   * Describe the focused form field, if any; password values are never included
+   * @returns {Object|null} - Field description
+   */
+  function describeFocusedField() {
+    const element = document.activeElement;
+    if (!element || element === document.body) return null;
+
+    const tag = element.tagName.toLowerCase();
+    const editable = element.isContentEditable;
+    if (!['input', 'textarea', 'select'].includes(tag) && !editable) return null;
+
+    const type = tag === 'input' ? element.type || 'text' : tag;
+    const labelElement =
+      (element.id && document.querySelector(`label[for="${CSS.escape(element.id)}"]`)) ||
+      element.closest('label');
+    const label =
+      element.getAttribute('aria-label') ||
+      (labelElement && labelElement.innerText.trim()) ||
+      element.getAttribute('placeholder') ||
+      '';
+    const value = editable ? element.innerText : element.value;
+    // Autocomplete tokens mark card fields (cc-number, cc-csc, ...) and one-time codes
+    const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/);
+    const secret =
+      type === 'password' ||
+      type === 'hidden' ||
+      autocomplete.some((token) => token.startsWith('cc-') || token === 'one-time-code');
+
+    return {
+      tag,
+      type,
+      name: element.getAttribute('name') || '',
+      id: element.id || '',
+      label: label.substring(0, 200),
+      value: secret ? '' : String(value || '').substring(0, 500),
+    };
+  }
+
   /**
    * Extract metadata from the page
    * @returns {Object} - Page metadata
@@ -2845,6 +2900,25 @@ if (window.__WEB_FETCHER_HELPER_INITIALIZED__) {
       metadata.siteName = siteNameElement.getAttribute('content') || '';
     }
 
+    // Extract OpenGraph properties
+    metadata.openGraph = {};
+    document.querySelectorAll('meta[property^="og:"]').forEach((element) => {
+      const property = element.getAttribute('property').slice(3);
+      if (!(property in metadata.openGraph)) {
+        metadata.openGraph[property] = element.getAttribute('content') || '';
+      }
+    });
+
+    // Extract JSON-LD structured data, skipping blocks that do not parse
+    metadata.jsonLd = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach((element) => {
+      try {
+        metadata.jsonLd.push(JSON.parse(element.textContent));
+      } catch (error) {
+        // Ignore malformed JSON-LD
+      }
+    });
+
     return metadata;
   }
 
@@ -0,0 +1,80 @@
+/**
+ * LLM API errors
+ * Classifies failed chat completion requests so transient ones can be retried and
+ * quota or key problems can be shown to the user instead of a raw response body
+ */
+
+import type { ApiErrorKind } from '../types/grok';
+
+// Base delay for exponential backoff; doubles per attempt
+const BASE_RETRY_DELAY_MS = 1000;
+// Longest wait we accept, whether from backoff or a server's Retry-After
+export const MAX_RETRY_DELAY_MS = 60000;
+
+// Providers report exhausted credits with 402, 403 or 429 and a message like these
+const QUOTA_PATTERN =
+  /insufficient_quota|quota|credits?|billing|spending limit|payment required|exhausted/i;
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly status?: number,
+    // Server-requested wait before retrying, from Retry-After
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+
+  static async fromResponse(response: Response, baseUrl: string): Promise<ApiError> {
+    const body = await response.text().catch(() => '');
+    const { status } = response;
+    const message = `API error (${status}) from ${baseUrl}: ${body}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+    if (status === 402 || ((status === 403 || status === 429) && QUOTA_PATTERN.test(body))) {
+      return new ApiError(message, 'quota', status);
+    }
+    if (status === 401 || status === 403) {
+      return new ApiError(message, 'auth', status);
+    }
+    if (status === 429) {
+      return new ApiError(message, 'rate_limit', status, retryAfterMs);
+    }
+    if (status === 408 || status >= 500) {
+      return new ApiError(message, 'server', status, retryAfterMs);
+    }
+    return new ApiError(message, 'other', status);
+  }
+
+  static network(cause: unknown, baseUrl: string): ApiError {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    return new ApiError(`Network error contacting ${baseUrl}: ${reason}`, 'network');
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait before the next attempt: the server's Retry-After when given, otherwise
+ * exponential backoff with jitter so parallel panels do not retry in lockstep
+ */
+export function retryDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,219 @@
+/**
+ * API key vault
+ * Stores the xAI API key either as plain text or encrypted with a passphrase (PBKDF2 + AES-GCM).
+ * An unlocked vault keeps its derived key in chrome.storage.session, so it stays unlocked
+ * until the browser closes or the user locks it, and the passphrase itself is never stored.
+ */
+
+import { base64ToBytes, bytesToBase64, EncryptedEnvelope, SecureStorage } from './secure-storage';
+
+// 'sync' follows the user's Chrome profile to every signed-in browser, 'local' stays on this device
+export type ApiKeyStorageArea = 'sync' | 'local';
+
+export interface ApiKeyStatus {
+  // A key is stored, encrypted or not
+  hasKey: boolean;
+  encrypted: boolean;
+  // Encrypted and not unlocked in this browser session
+  locked: boolean;
+  area: ApiKeyStorageArea;
+}
+
+export interface SaveApiKeyOptions {
+  area: ApiKeyStorageArea;
+  encrypt: boolean;
+  // Required when first encrypting; omit to re-encrypt with the unlocked vault's key
+  passphrase?: string;
+}
+
+interface VaultRecord {
+  salt: string;
+  iterations: number;
+  envelope: EncryptedEnvelope;
+}
+
+interface StoredApiKey {
+  area: ApiKeyStorageArea;
+  plainKey?: string;
+  vault?: VaultRecord;
+}
+
+const PLAIN_KEY = 'grok_api_key';
+const VAULT_KEY = 'grok_api_key_vault';
+const SESSION_UNLOCK_KEY = 'grok_api_key_vault_unlock';
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+// Sync is checked first so keys saved by older versions keep working
+const STORAGE_AREAS: ApiKeyStorageArea[] = ['sync', 'local'];
+
+export class ApiKeyVault {
+  static async getStatus(): Promise<ApiKeyStatus> {
+    const stored = await findStoredApiKey();
+    if (!stored) {
+      return { hasKey: false, encrypted: false, locked: false, area: 'sync' };
+    }
+    if (!stored.vault) {
+      return { hasKey: true, encrypted: false, locked: false, area: stored.area };
+    }
+    const sessionKey = await loadSessionKey(stored.vault.salt);
+    return { hasKey: true, encrypted: true, locked: !sessionKey, area: stored.area };
+  }
+
+  /**
+   * The stored API key, or null if there is none or the vault is locked
+   */
+  static async getApiKey(): Promise<string | null> {
+    const stored = await findStoredApiKey();
+    if (!stored) return null;
+    if (!stored.vault) return stored.plainKey || null;
+
+    const sessionKey = await loadSessionKey(stored.vault.salt);
+    if (!sessionKey) return null;
+    try {
+      return await SecureStorage.decryptWithKey(stored.vault.envelope, sessionKey);
+    } catch (error) {
+      // The vault was replaced (e.g. from another synced browser); ask for the passphrase again
+      console.warn('ApiKeyVault: session key no longer matches the vault, locking', error);
+      await this.lock();
+      return null;
+    }
+  }
+
+  /**
+   * Save the API key, replacing whatever was stored before in either storage area.
+   * An empty key removes the stored key and locks the vault.
+   */
+  static async saveApiKey(apiKey: string, options: SaveApiKeyOptions): Promise<void> {
+    if (!apiKey) {
+      await clearStoredApiKeys();
+      await this.lock();
+      return;
+    }
+
+    if (!options.encrypt) {
+      await clearStoredApiKeys();
+      await chrome.storage[options.area].set({ [PLAIN_KEY]: apiKey });
+      await this.lock();
+      return;
+    }
+
+    let salt: string;
+    let cryptoKey: CryptoKey;
+    if (options.passphrase) {
+      salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+      cryptoKey = await deriveKey(options.passphrase, salt, PBKDF2_ITERATIONS);
+    } else {
+      const stored = await findStoredApiKey();
+      const sessionKey = stored?.vault ? await loadSessionKey(stored.vault.salt) : null;
+      if (!stored?.vault || !sessionKey) {
+        throw new Error('Enter a passphrase or unlock the vault to encrypt the API key');
+      }
+      salt = stored.vault.salt;
+      cryptoKey = sessionKey;
+    }
+
+    const vault: VaultRecord = {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      envelope: await SecureStorage.encryptWithKey(apiKey, cryptoKey),
+    };
+    await clearStoredApiKeys();
+    await chrome.storage[options.area].set({ [VAULT_KEY]: vault });
+    await storeSessionKey(salt, cryptoKey);
+  }
+
+  /**
+   * Unlock the vault for this browser session. Resolves to false for a wrong passphrase.
+   */
+  static async unlock(passphrase: string): Promise<boolean> {
+    const stored = await findStoredApiKey();
+    if (!stored?.vault) return false;
+
+    const cryptoKey = await deriveKey(passphrase, stored.vault.salt, stored.vault.iterations);
+    try {
+      // AES-GCM authentication fails when the key was derived from the wrong passphrase
+      await SecureStorage.decryptWithKey(stored.vault.envelope, cryptoKey);
+    } catch {
+      return false;
+    }
+    await storeSessionKey(stored.vault.salt, cryptoKey);
+    return true;
+  }
+
+  static async lock(): Promise<void> {
+    await chrome.storage.session.remove([SESSION_UNLOCK_KEY]);
+  }
+
+  /**
+   * Call listener whenever the stored key, the vault or its unlock state changes,
+   * including changes made from another extension page. Returns an unsubscribe function.
+   */
+  static subscribe(listener: () => void): () => void {
+    const handleChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+      if (PLAIN_KEY in changes || VAULT_KEY in changes || SESSION_UNLOCK_KEY in changes) {
+        listener();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }
+}
+
+async function findStoredApiKey(): Promise<StoredApiKey | null> {
+  for (const area of STORAGE_AREAS) {
+    const result = await chrome.storage[area].get([PLAIN_KEY, VAULT_KEY]);
+    if (result[VAULT_KEY]) return { area, vault: result[VAULT_KEY] };
+    if (result[PLAIN_KEY]) return { area, plainKey: result[PLAIN_KEY] };
+  }
+  return null;
+}
+
+async function clearStoredApiKeys(): Promise<void> {
+  await Promise.all(
+    STORAGE_AREAS.map((area) => chrome.storage[area].remove([PLAIN_KEY, VAULT_KEY])),
+  );
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  // Extractable so the unlocked key can be held in session storage
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function storeSessionKey(salt: string, cryptoKey: CryptoKey): Promise<void> {
+  const raw = await crypto.subtle.exportKey('raw', cryptoKey);
+  await chrome.storage.session.set({
+    [SESSION_UNLOCK_KEY]: { salt, key: bytesToBase64(new Uint8Array(raw)) },
+  });
+}
+
+/**
+ * The unlocked key for the vault with this salt, if any
+ */
+async function loadSessionKey(salt: string): Promise<CryptoKey | null> {
+  try {
+    const result = await chrome.storage.session.get([SESSION_UNLOCK_KEY]);
+    const unlock = result[SESSION_UNLOCK_KEY];
+    if (!unlock || unlock.salt !== salt) return null;
+
+    return await crypto.subtle.importKey('raw', base64ToBytes(unlock.key), 'AES-GCM', true, [
+      'encrypt',
+      'decrypt',
+    ]);
+  } catch (error) {
+    console.warn('ApiKeyVault: failed to read session unlock', error);
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Composer file attachments
+ * Images are downscaled for vision models, text files are inlined up to a size limit and
+ * PDFs are turned into text by the offscreen document
+ */
+
+import { BACKGROUND_MESSAGE_TYPES } from '../common/message-types';
+import type { AttachmentKind, ChatAttachment, GrokContentPart } from '../types/grok';
+import { compressImage } from '../utils/image-utils';
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Inlined text per file; longer files are cut and marked as truncated
+const MAX_ATTACHMENT_TEXT_CHARS = 20000;
+// Longest image side sent to the model; larger images cost more without reading better
+const MAX_IMAGE_DIMENSION = 1568;
+
+export const ATTACHMENT_ACCEPT =
+  'image/*,application/pdf,text/*,.csv,.tsv,.json,.md,.txt,.log,.xml,.yaml,.yml';
+
+const TEXT_EXTENSIONS = /\.(csv|tsv|json|md|markdown|txt|log|xml|ya?ml|html?|js|ts|py|sql)$/i;
+
+export function attachmentKind(file: File): AttachmentKind | null {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) return 'pdf';
+  if (file.type.startsWith('text/') || file.type === 'application/json') return 'text';
+  return TEXT_EXTENSIONS.test(file.name) ? 'text' : null;
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function limitText(text: string): { text: string; truncated?: boolean } {
+  return text.length > MAX_ATTACHMENT_TEXT_CHARS
+    ? { text: text.slice(0, MAX_ATTACHMENT_TEXT_CHARS), truncated: true }
+    : { text };
+}
+
+async function extractPdfText(dataUrl: string): Promise<string> {
+  const response = await chrome.runtime.sendMessage({
+    type: BACKGROUND_MESSAGE_TYPES.EXTRACT_PDF_TEXT,
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+  });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to extract PDF text');
+  }
+  return response.text;
+}
+
+/**
+ * Read a picked or dropped file into an attachment; throws for unsupported or oversized files
+ */
+export async function readAttachment(file: File): Promise<ChatAttachment> {
+  const kind = attachmentKind(file);
+  if (!kind) {
+    throw new Error(`${file.name}: unsupported file type`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name}: larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const attachment: ChatAttachment = {
+    id: `att_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: file.name,
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    kind,
+  };
+
+  if (kind === 'image') {
+    const original = await readAsDataUrl(file);
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    bitmap.close();
+    // Small images go as they are; larger ones are downscaled and re-encoded as JPEG
+    if (scale === 1 && file.size < 512 * 1024) {
+      return { ...attachment, dataUrl: original };
+    }
+    const { dataUrl, mimeType } = await compressImage(original, { scale, quality: 0.85 });
+    return { ...attachment, dataUrl, mimeType };
+  }
+
+  if (kind === 'pdf') {
+    // The model reads the extracted text; the original is kept for chrome_upload_file
+    const dataUrl = await readAsDataUrl(file);
+    return { ...attachment, ...limitText(await extractPdfText(dataUrl)), dataUrl };
+  }
+  return { ...attachment, ...limitText(await file.text()) };
+}
+
+function describeAttachment(attachment: ChatAttachment, supportsVision: boolean): string {
+  if (attachment.kind === 'image') {
+    return supportsVision
+      ? `[Attached image: ${attachment.name}]`
+      : `[Attached image ${attachment.name} omitted: the selected model does not accept images]`;
+  }
+  const note = attachment.truncated
+    ? ` (first ${MAX_ATTACHMENT_TEXT_CHARS} characters of a longer file)`
+    : '';
+  return `Attached file: ${attachment.name}${note}\n\`\`\`\n${attachment.text}\n\`\`\``;
+}
+
+/**
+ * Message content for a user turn with attachments: text files inline, images as
+ * image parts for vision models
+ */
+export function buildAttachmentContent(
+  text: string,
+  attachments: ChatAttachment[],
+  supportsVision: boolean,
+): string | GrokContentPart[] {
+  const body = [text, ...attachments.map((a) => describeAttachment(a, supportsVision))]
+    .filter(Boolean)
+    .join('\n\n');
+  const images = supportsVision ? attachments.filter((a) => a.kind === 'image' && a.dataUrl) : [];
+  if (images.length === 0) return body;
+  return [
+    { type: 'text', text: body },
+    ...images.map(
+      (image): GrokContentPart => ({
+        type: 'image_url',
+        image_url: { url: image.dataUrl!, detail: 'auto' },
+      }),
+    ),
+  ];
+}
@@ -0,0 +1,119 @@
+/**
+ * Context window budgeting
+ * Rough token accounting that keeps requests inside the model's context window:
+ * tool outputs are capped, older tool outputs shrink further, and the oldest turns are
+ * dropped once a rolling summary has replaced them
+ */
+
+import type { GrokMessage, GrokTool } from '../types/grok';
+
+// ~4 characters per token for English text and JSON
+const CHARS_PER_TOKEN = 4;
+// Flat cost per image part; providers bill by tile and a typical screenshot lands near this
+const IMAGE_TOKENS = 1000;
+// Role and formatting overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Tool outputs from earlier turns only need to remind the model what it already saw
+const OLD_TOOL_OUTPUT_TOKENS = 500;
+const MAX_TOOL_OUTPUT_TOKENS = 8000;
+const MIN_AVAILABLE_TOKENS = 1000;
+
+export interface ContextBudget {
+  // Tokens left for conversation messages after the reply, system prompt and tool schemas
+  available: number;
+  // Share of `available` the prior conversation may use before it is summarized
+  history: number;
+  // Cap for a single tool output
+  toolOutput: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: GrokMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === 'string') {
+    tokens += estimateTokens(message.content);
+  } else {
+    for (const part of message.content) {
+      tokens += part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS;
+    }
+  }
+  for (const call of message.tool_calls || []) {
+    tokens += estimateTokens(call.function.name) + estimateTokens(call.function.arguments);
+  }
+  return tokens;
+}
+
+export function estimateMessagesTokens(messages: GrokMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+export function planContextBudget(
+  contextTokens: number,
+  maxReplyTokens: number,
+  systemPrompt: string,
+  tools: GrokTool[],
+): ContextBudget {
+  const reserved =
+    maxReplyTokens +
+    estimateTokens(systemPrompt) +
+    (tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0);
+  const available = Math.max(MIN_AVAILABLE_TOKENS, contextTokens - reserved);
+  return {
+    available,
+    history: Math.floor(available * 0.5),
+    toolOutput: Math.min(MAX_TOOL_OUTPUT_TOKENS, Math.floor(available * 0.25)),
+  };
+}
+
+/**
+ * Cut text to about maxTokens, keeping the start and noting how much was dropped
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n[truncated ${text.length - maxChars} of ${text.length} characters to fit the context window]`;
+}
+
+/**
+ * Shrink messages in place until they fit the budget. Tool outputs before the latest
+ * assistant turn are shortened first; if that is not enough the oldest turns are dropped,
+ * always cutting at a user message so tool results never lose their tool call.
+ */
+export function fitMessagesToBudget(messages: GrokMessage[], budget: number): void {
+  if (estimateMessagesTokens(messages) <= budget) return;
+
+  let lastAssistantIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant') {
+      lastAssistantIndex = i;
+      break;
+    }
+  }
+  for (let i = 0; i < lastAssistantIndex; i++) {
+    const message = messages[i];
+    if (message.role === 'tool' && typeof message.content === 'string') {
+      messages[i] = {
+        ...message,
+        content: truncateToTokens(message.content, OLD_TOOL_OUTPUT_TOKENS),
+      };
+    }
+  }
+
+  let lastUserIndex = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && typeof messages[i].content === 'string') {
+      lastUserIndex = i;
+      break;
+    }
+  }
+  while (lastUserIndex > 0 && estimateMessagesTokens(messages) > budget) {
+    // Drop through the next user message that starts a turn
+    let cut = 1;
+    while (cut < lastUserIndex && messages[cut].role !== 'user') cut++;
+    messages.splice(0, cut);
+    lastUserIndex -= cut;
+  }
+}
@@ -1,35 +1,184 @@
-import { GrokMessage, GrokResponse, GrokTool, BrowserContext, TaskResult } from '../types/grok';
+import {
+  AgentSettings,
+  AttachedTab,
+  GrokContentPart,
+  GrokMessage,
+  GrokResponse,
+  GrokStreamChunk,
+  GrokTool,
+  GrokToolCall,
+  BrowserContext,
+  ContextCaptureSettings,
+  LiveSearchMode,
+  OpenTab,
+  PlanStep,
+  PlanStepStatus,
+  ConversationSummary,
+  ExecuteOptions,
+  ResumeCheckpoint,
+  RetryNotice,
+  TaskResult,
+} from '../types/grok';
+import { isParallelSafeTool, TOOL_NAMES } from 'chrome-mcp-shared';
 import { BACKGROUND_MESSAGE_TYPES } from '../common/message-types';
+import {
+  CITATION_INSTRUCTIONS,
+  CitationSource,
+  citedSourceIds,
+  collectSources,
+  tabSourceId,
+} from '../common/citations';
+import { ApiError, MAX_RETRY_DELAY_MS, retryDelay } from './api-errors';
+import { ApiKeyVault, SaveApiKeyOptions } from './api-key-vault';
+import {
+  estimateMessagesTokens,
+  fitMessagesToBudget,
+  planContextBudget,
+  truncateToTokens,
+} from './context-budget';
+import {
+  buildAuthHeaders,
+  DEFAULT_PROVIDER,
+  getCachedModels,
+  getProviderConfig,
+  guessVisionSupport,
+  ModelCatalog,
+  ModelInfo,
+  parseModelListing,
+  ProviderConfig,
+  providerRequiresApiKey,
+  providerUrl,
+  saveCachedModels,
+  saveProviderConfig,
+} from './providers';
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  maxSteps: 10,
+  maxTokens: 800,
+  temperature: 0.3,
+  concise: true,
+  stepMode: false,
+};
+
+export const DEFAULT_CONTEXT_CAPTURE: ContextCaptureSettings = {
+  pageText: true,
+  screenshot: false,
+  metadata: true,
+  // Off by default: the field may hold what the user is typing, such as payment details
+  focusedField: false,
+};
+
+// Page text and structured data beyond these lengths are cut from the system prompt
+const CONTEXT_PAGE_TEXT_CHARS = 2000;
+const CONTEXT_JSON_LD_CHARS = 1500;
+const CONTEXT_ATTACHED_TAB_CHARS = 6000;
+
+export const MAX_ATTACHED_TABS = 5;
+
+// Handled in the side panel rather than the background, so it is not in TOOL_SCHEMAS
+const PLAN_TOOL_NAME = 'update_plan';
+const PLAN_STEP_STATUSES: PlanStepStatus[] = ['pending', 'in_progress', 'completed', 'failed'];
+const PLAN_TOOL: GrokTool = {
+  type: 'function',
+  function: {
+    name: PLAN_TOOL_NAME,
+    description:
+      'Create or update the plan for a multi-step task. Call it before starting with every step pending, then again with the full list whenever a step starts, completes or fails. Skip it for simple one-step requests.',
+    parameters: {
+      type: 'object',
+      properties: {
+        steps: {
+          type: 'array',
+          description: 'All steps of the plan, in order',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', description: 'Short description of the step' },
+              status: { type: 'string', enum: PLAN_STEP_STATUSES },
+            },
+            required: ['title', 'status'],
+          },
+        },
+      },
+      required: ['steps'],
+    },
+  },
+};
+
+// Context window assumed when the provider's model listing does not report one
+const DEFAULT_CONTEXT_TOKENS = 32768;
+const XAI_DEFAULT_CONTEXT_TOKENS = 131072;
+// Turns always sent verbatim; anything older may be folded into the rolling summary
+const KEEP_RECENT_MESSAGES = 6;
+const SUMMARY_MAX_TOKENS = 600;
+// Total attempts for a chat completion request when it hits rate limits, 5xx or network errors
+const MAX_REQUEST_ATTEMPTS = 4;
+
+interface ChatOptions {
+  concise?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+  // Apply the Live Search setting; internal requests such as summaries never search
+  liveSearch?: boolean;
+}
 
 export class GrokService {
   private apiKey: string | null = null;
-  private baseUrl = 'https://api.x.ai/v1';
+  private provider: ProviderConfig = DEFAULT_PROVIDER;
+  // Capabilities from the provider's last model listing
+  private modelCatalog: ModelInfo[] = [];
   private model: string = 'grok-4-fast-reasoning';
+  private liveSearchMode: LiveSearchMode = 'auto';
 
   constructor() {
     this.loadApiKey();
+    this.loadProvider();
     this.loadModel();
+    this.loadLiveSearchMode();
+    // Pick up unlock/lock and key changes made in other extension pages
+    ApiKeyVault.subscribe(() => this.loadApiKey());
   }
 
-  private async loadApiKey(): Promise<void> {
+  async loadApiKey(): Promise<void> {
     try {
-      const result = await chrome.storage.sync.get(['grok_api_key']);
-      this.apiKey = result.grok_api_key || null;
+      this.apiKey = await ApiKeyVault.getApiKey();
     } catch (error) {
       console.error('Failed to load Grok API key:', error);
     }
   }
 
-  async setApiKey(apiKey: string): Promise<void> {
-    this.apiKey = apiKey;
+  async setApiKey(apiKey: string, options: SaveApiKeyOptions): Promise<void> {
     try {
-      await chrome.storage.sync.set({ grok_api_key: apiKey });
+      await ApiKeyVault.saveApiKey(apiKey, options);
+      this.apiKey = apiKey || null;
     } catch (error) {
       console.error('Failed to save Grok API key:', error);
       throw error;
     }
   }
 
+  private async loadProvider(): Promise<void> {
+    this.provider = await getProviderConfig();
+    this.modelCatalog = (await getCachedModels(this.provider))?.models || [];
+  }
+
+  getProvider(): ProviderConfig {
+    return this.provider;
+  }
+
+  async setProvider(config: ProviderConfig): Promise<void> {
+    this.provider = config;
+    this.modelCatalog = (await getCachedModels(config))?.models || [];
+    try {
+      await saveProviderConfig(config);
+    } catch (error) {
+      console.error('Failed to save provider config:', error);
+      throw error;
+    }
+  }
+
   private async loadModel(): Promise<void> {
     try {
       const result = await chrome.storage.sync.get(['grok_model']);
@@ -49,16 +198,243 @@ export class GrokService {
     }
   }
 
+  private async loadLiveSearchMode(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(['live_search_mode']);
+      this.liveSearchMode = result.live_search_mode || 'auto';
+    } catch (error) {
+      console.error('Failed to load Live Search mode:', error);
+    }
+  }
+
+  async setLiveSearchMode(mode: LiveSearchMode): Promise<void> {
+    this.liveSearchMode = mode;
+    try {
+      await chrome.storage.local.set({ live_search_mode: mode });
+    } catch (error) {
+      console.error('Failed to save Live Search mode:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the provider's model listing and cache it per base URL.
+   * Falls back to the cached listing when the provider cannot be reached.
+   * Pass a config to list models for provider settings that are not saved yet.
+   */
+  async listModels(config: ProviderConfig = this.provider): Promise<ModelCatalog> {
+    // xAI only reports modalities on its language-models endpoint
+    const path = config.type === 'xai' ? '/language-models' : '/models';
+    const isActiveProvider = config.baseUrl === this.provider.baseUrl;
+    try {
+      const response = await fetch(providerUrl(config, path), {
+        headers: buildAuthHeaders(config, this.apiKey),
+      });
+      if (!response.ok) {
+        throw new Error(`Model listing failed (${response.status}): ${await response.text()}`);
+      }
+      const models = parseModelListing(await response.json());
+      if (isActiveProvider) this.modelCatalog = models;
+      await saveCachedModels(config, models);
+      return { models, fetchedAt: Date.now(), fromCache: false };
+    } catch (error) {
+      const cached = await getCachedModels(config);
+      if (!cached) throw error;
+      console.warn('Failed to list models, using cached list:', error);
+      if (isActiveProvider) this.modelCatalog = cached.models;
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  getModelInfo(model: string = this.model): ModelInfo | undefined {
+    return this.modelCatalog.find((info) => info.id === model);
+  }
+
+  /**
+   * Whether the selected model accepts image_url content parts
+   */
+  supportsVision(): boolean {
+    return this.getModelInfo()?.vision ?? guessVisionSupport(this.model);
+  }
+
+  /**
+   * Context window of the selected model in tokens
+   */
+  getContextLength(): number {
+    return (
+      this.getModelInfo()?.contextLength ??
+      (this.provider.type === 'xai' ? XAI_DEFAULT_CONTEXT_TOKENS : DEFAULT_CONTEXT_TOKENS)
+    );
+  }
+
+  /**
+   * Whether the selected model can call tools; unknown models are assumed to
+   */
+  supportsTools(): boolean {
+    return this.getModelInfo()?.tools ?? true;
+  }
+
   async chat(
     messages: GrokMessage[],
     tools?: GrokTool[],
     systemPrompt?: string,
-    options?: { concise?: boolean; maxTokens?: number; temperature?: number },
+    options?: ChatOptions,
   ): Promise<GrokResponse> {
-    if (!this.apiKey) {
-      throw new Error('Grok API key not set. Please configure it in settings.');
+    const response = await this.postCompletion(
+      this.buildRequestBody(messages, tools, systemPrompt, options),
+      options,
+    );
+    return response.json();
+  }
+
+  /**
+   * Stream a chat completion over SSE, yielding each chunk as it arrives.
+   * Content and tool_calls arrive as deltas; see streamToResponse for reassembly.
+   */
+  async *chatStream(
+    messages: GrokMessage[],
+    tools?: GrokTool[],
+    systemPrompt?: string,
+    options?: ChatOptions,
+  ): AsyncGenerator<GrokStreamChunk> {
+    const requestBody = this.buildRequestBody(messages, tools, systemPrompt, options);
+    requestBody.stream = true;
+    // Ask for a final chunk with token usage; it is otherwise omitted when streaming
+    requestBody.stream_options = { include_usage: true };
+
+    const response = await this.postCompletion(requestBody, options);
+    if (!response.body) {
+      throw new Error('API returned an empty stream');
     }
 
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are newline-delimited; keep the trailing partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const chunk = parseSseLine(line);
+          if (chunk === 'done') return;
+          if (chunk) yield chunk;
+        }
+      }
+
+      const chunk = parseSseLine(buffer);
+      if (chunk && chunk !== 'done') yield chunk;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Consume a streamed completion and rebuild it into a regular GrokResponse,
+   * reporting the accumulated text after every content delta.
+   */
+  private async streamToResponse(
+    messages: GrokMessage[],
+    tools: GrokTool[],
+    systemPrompt: string,
+    options: ChatOptions,
+    onStreamText: (text: string) => void,
+    onReasoning?: (reasoning: string) => void,
+  ): Promise<GrokResponse> {
+    let id = '';
+    let created = 0;
+    let model = this.model;
+    let content = '';
+    let reasoning = '';
+    let finishReason: GrokResponse['choices'][0]['finish_reason'] = 'stop';
+    let usage: GrokResponse['usage'] = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let citations: string[] | undefined;
+    const toolCalls: NonNullable<GrokMessage['tool_calls']> = [];
+
+    onStreamText('');
+
+    for await (const chunk of this.chatStream(messages, tools, systemPrompt, options)) {
+      id = chunk.id || id;
+      created = chunk.created || created;
+      model = chunk.model || model;
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.citations?.length) citations = chunk.citations;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        onStreamText(content);
+      }
+
+      const reasoningDelta = choice.delta.reasoning_content ?? choice.delta.reasoning;
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        onReasoning?.(reasoning);
+      }
+
+      // Tool call fragments are keyed by index: the first fragment carries id and name,
+      // later ones append to the JSON arguments string
+      for (const fragment of choice.delta.tool_calls || []) {
+        const existing = toolCalls[fragment.index];
+        if (!existing) {
+          toolCalls[fragment.index] = {
+            id: fragment.id || '',
+            type: 'function',
+            function: {
+              name: fragment.function?.name || '',
+              arguments: fragment.function?.arguments || '',
+            },
+          };
+          continue;
+        }
+        if (fragment.id) existing.id = fragment.id;
+        if (fragment.function?.name) existing.function.name += fragment.function.name;
+        if (fragment.function?.arguments) {
+          existing.function.arguments += fragment.function.arguments;
+        }
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    const completedToolCalls = toolCalls.filter(Boolean);
+
+    return {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content,
+            reasoning_content: reasoning || undefined,
+            tool_calls: completedToolCalls.length > 0 ? completedToolCalls : undefined,
+          },
+          finish_reason: finishReason,
+        },
+      ],
+      usage,
+      citations,
+    };
+  }
+
+  private buildRequestBody(
+    messages: GrokMessage[],
+    tools?: GrokTool[],
+    systemPrompt?: string,
+    options?: ChatOptions,
+  ): any {
     const finalMessages: GrokMessage[] = [];
 
     if (systemPrompt) {
@@ -88,21 +464,97 @@ export class GrokService {
       requestBody.tool_choice = 'auto';
     }
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    // Live Search is xAI-only; other providers reject the unknown field.
+    // 'off' is sent explicitly so a server-side default can never turn searching on.
+    if (this.provider.type === 'xai') {
+      const mode = options?.liveSearch ? this.liveSearchMode : 'off';
+      requestBody.search_parameters = mode === 'off' ? { mode } : { mode, return_citations: true };
+    }
+
+    return requestBody;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Grok API error (${response.status}): ${error}`);
+  /**
+   * POST a chat completion, retrying rate limits, 5xx and network errors with backoff.
+   * Only the request is retried; a stream that breaks after it started is not.
+   */
+  private async postCompletion(requestBody: any, options?: ChatOptions): Promise<Response> {
+    if (!this.apiKey && providerRequiresApiKey(this.provider)) {
+      throw new ApiError('API key not set. Please configure it in settings.', 'auth');
     }
+    const signal = options?.signal;
 
-    return response.json();
+    for (let attempt = 1; ; attempt++) {
+      let error: ApiError;
+      try {
+        const response = await fetch(providerUrl(this.provider, '/chat/completions'), {
+          method: 'POST',
+          headers: {
+            ...buildAuthHeaders(this.provider, this.apiKey),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        });
+        this.reportApiCall(requestBody, response.status);
+        if (response.ok) return response;
+        error = await ApiError.fromResponse(response, this.provider.baseUrl);
+      } catch (cause) {
+        if (signal?.aborted || cause instanceof ApiError) throw cause;
+        error = ApiError.network(cause, this.provider.baseUrl);
+      }
+
+      // Give up when the server asks for a longer wait than we are willing to block for
+      const tooLong = (error.retryAfterMs ?? 0) > MAX_RETRY_DELAY_MS;
+      if (!error.retryable || tooLong || attempt >= MAX_REQUEST_ATTEMPTS) throw error;
+
+      const delayMs = retryDelay(attempt, error.retryAfterMs);
+      console.warn(`Retrying chat completion in ${Math.round(delayMs)}ms:`, error.message);
+      options?.onRetry?.({
+        attempt,
+        maxAttempts: MAX_REQUEST_ATTEMPTS,
+        delayMs,
+        kind: error.kind,
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Emit security events for a Grok API call; the background security monitor stores them
+   */
+  private reportApiCall(requestBody: any, status: number): void {
+    const url = new URL(this.provider.baseUrl);
+    const events: any[] = [
+      {
+        type: 'network',
+        severity: 'low',
+        source: 'grok_api',
+        details: {
+          domain: url.hostname,
+          protocol: url.protocol.replace(':', ''),
+          model: requestBody.model,
+          messageCount: requestBody.messages?.length || 0,
+          toolCount: requestBody.tools?.length || 0,
+          stream: !!requestBody.stream,
+          status,
+        },
+      },
+    ];
+    if (status === 401 || status === 403) {
+      events.push({
+        type: 'authentication',
+        severity: 'high',
+        source: 'grok_api',
+        details: { success: false, status },
+      });
+    }
+
+    for (const event of events) {
+      chrome.runtime
+        .sendMessage({ type: BACKGROUND_MESSAGE_TYPES.SECURITY_LOG_EVENT, event })
+        .catch((error) => console.warn('Failed to report security event:', error));
+    }
   }
 
   async executeWithPrompt(
@@ -111,28 +563,144 @@ export class GrokService {
     context: BrowserContext,
     tools: GrokTool[] = [],
     onThinkingData?: (toolCall: { name: string; description: string; result?: any }) => void,
+    options: ExecuteOptions = {},
   ): Promise<TaskResult> {
+    const { signal } = options;
+    const settings = options.settings || DEFAULT_AGENT_SETTINGS;
+    let summary = options.summary;
+    const executedToolCalls: { name: string; description: string; result: any }[] = [];
+    // Latest assistant text seen so far, kept so a cancelled run still returns a partial transcript
+    let partialText = '';
+    // Reasoning of finished turns; the current turn's trace is appended while it streams
+    let reasoning = '';
+    let reasoningTokens = 0;
+    // Last point a failed run can resume from
+    let checkpoint: ResumeCheckpoint | undefined;
+    // Tokens billed for every request of the run, summaries included
+    const usage = { promptTokens: 0, completionTokens: 0, searchSources: 0 };
+    const citations: string[] = [];
+    // Sources tagged in tool results, by sourceId; the answer keeps the ones it cites
+    const sources = new Map<string, CitationSource>();
+    collectSources(context.attachedTabs, sources);
+    const addUsage = (response: GrokResponse) => {
+      usage.promptTokens += response.usage?.prompt_tokens || 0;
+      usage.completionTokens += response.usage?.completion_tokens || 0;
+      usage.searchSources += response.usage?.num_sources_used || 0;
+      for (const url of response.citations || []) {
+        if (!citations.includes(url)) citations.push(url);
+      }
+    };
+    const joinReasoning = (turnReasoning: string) =>
+      [reasoning, turnReasoning].filter(Boolean).join('\n\n');
+
+    // Tags the tool calls of this run so cancelling it leaves other runs' captures alone
+    const runId = `run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    // Tell the background to stop long-running tools (captures, stitching) as soon as we abort
+    const cancelBackgroundTools = () => {
+      chrome.runtime
+        .sendMessage({ type: BACKGROUND_MESSAGE_TYPES.CANCEL_TOOL_EXECUTION, runId })
+        .catch((error) => console.warn('Failed to cancel background tools:', error));
+    };
+    signal?.addEventListener('abort', cancelBackgroundTools, { once: true });
+
     try {
-      const systemPrompt = this.enrichPromptWithContext(promptContent, context);
+      const chatOptions: ChatOptions = {
+        concise: settings.concise,
+        maxTokens: settings.maxTokens,
+        temperature: settings.temperature,
+        signal,
+        onRetry: options.onRetry,
+        liveSearch: true,
+      };
+      // Models without tool calling reject requests that include tools
+      const turnTools = !this.supportsTools()
+        ? []
+        : options.onPlanUpdate
+          ? [...tools, PLAN_TOOL]
+          : tools;
+      const baseSystemPrompt = [
+        this.enrichPromptWithContext(promptContent, context),
+        turnTools.length > 0 ? CITATION_INSTRUCTIONS : '',
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+      const budget = planContextBudget(
+        this.getContextLength(),
+        settings.maxTokens,
+        baseSystemPrompt,
+        turnTools,
+      );
 
-      const messages: GrokMessage[] = [...conversationHistory];
+      let systemPrompt: string;
+      let messages: GrokMessage[];
+      const resume = options.resumeFrom;
+      if (resume) {
+        // The checkpoint already holds the compacted history and the run's tool results
+        systemPrompt = resume.systemPrompt;
+        messages = [...resume.messages];
+      } else {
+        const compacted = await this.compactHistory(
+          conversationHistory,
+          summary,
+          budget.history,
+          signal,
+        );
+        summary = compacted.summary;
+        if (compacted.usage) {
+          usage.promptTokens += compacted.usage.prompt_tokens || 0;
+          usage.completionTokens += compacted.usage.completion_tokens || 0;
+        }
+        systemPrompt = summary
+          ? `${baseSystemPrompt}\n\n## Summary of the earlier conversation:\n${summary.text}`
+          : baseSystemPrompt;
+        messages = compacted.messages;
+        this.attachScreenshot(messages, context);
+      }
 
       let finalText: string = '';
-      const executedToolCalls: { name: string; description: string; result: any }[] = [];
+      const onStreamText = options.onStreamText
+        ? (text: string) => {
+            if (text) partialText = text;
+            options.onStreamText?.(text);
+          }
+        : undefined;
+
+      // Stream each model turn when the caller wants partial text, otherwise wait for the full reply
+      const requestTurn = (requestTools: GrokTool[]) => {
+        fitMessagesToBudget(messages, budget.available);
+        return onStreamText
+          ? this.streamToResponse(
+              messages,
+              requestTools,
+              systemPrompt,
+              chatOptions,
+              onStreamText,
+              options.onReasoning && ((text) => options.onReasoning?.(joinReasoning(text))),
+            )
+          : this.chat(messages, requestTools, systemPrompt, chatOptions);
+      };
 
       // Tool call loop: send messages, execute any tool calls, append results, repeat
-      for (let step = 0; step < 10; step++) {
-        // Increased from 6 to 10 to allow more tool calls
-        const response = await this.chat(messages, tools, systemPrompt, {
-          concise: true,
-          maxTokens: 800,
-          temperature: 0.3,
-        });
+      for (let step = resume?.step ?? 0; step < settings.maxSteps; step++) {
+        throwIfAborted(signal);
+        // Every tool call of the previous step has its result by now
+        if (step > 0) {
+          checkpoint = { messages: [...messages], systemPrompt, step };
+        }
+        const response = await requestTurn(turnTools);
         const choice = response.choices[0];
         if (!choice) {
           throw new Error('No response from Grok');
         }
 
+        const turnReasoning = choice.message.reasoning_content ?? choice.message.reasoning;
+        if (turnReasoning) {
+          reasoning = joinReasoning(turnReasoning);
+          options.onReasoning?.(reasoning);
+        }
+        reasoningTokens += response.usage?.completion_tokens_details?.reasoning_tokens || 0;
+        addUsage(response);
+
         // Push assistant turn (with tool_calls if present)
         const assistantTurn: GrokMessage = {
           role: 'assistant',
@@ -143,36 +711,7 @@ export class GrokService {
 
         const toolCalls = choice.message.tool_calls || [];
         const content = choice.message.content || '';
-
-        // Extract and emit planning information from assistant response
-        if (content && !toolCalls.length) {
-          // Look for planning patterns in the response
-          const planningPatterns = [
-            /I'?ll?\s+(?:plan|need|should|will)\s+to\s+(.+?)(?:\n|$|\.)/gi,
-            /First,?\s+(.+?)(?:\n|$|\.)/gi,
-            /Then,?\s+(.+?)(?:\n|$|\.)/gi,
-            /Next,?\s+(.+?)(?:\n|$|\.)/gi,
-            /Finally,?\s+(.+?)(?:\n|$|\.)/gi,
-            /Let me\s+(.+?)(?:\n|$|\.)/gi,
-            /I'?m\s+going\s+to\s+(.+?)(?:\n|$|\.)/gi,
-            /My\s+plan\s+is\s+(.+?)(?:\n|$|\.)/gi,
-            /Steps?\s*:\s*(.+?)(?:\n|$|\.)/gi,
-            /(\d+)\.\s+(.+?)(?:\n|$|\.)/gi,
-          ];
-
-          for (const pattern of planningPatterns) {
-            const matches = content.matchAll(pattern);
-            for (const match of matches) {
-              const planningStep = match[1] || match[2];
-              if (planningStep && planningStep.length > 10 && planningStep.length < 200) {
-                onThinkingData?.({
-                  name: 'Planning',
-                  description: `Planning: ${planningStep.trim()}`,
-                });
-              }
-            }
-          }
-        }
+        if (content) partialText = content;
 
         // If no tool calls, this is the final response
         if (toolCalls.length === 0) {
@@ -182,13 +721,10 @@ export class GrokService {
 
         // If we've reached the maximum iterations and still have tool calls,
         // break and use whatever content we have, or get a final summary
-        if (step === 9 && toolCalls.length > 0) {
+        if (step === settings.maxSteps - 1 && toolCalls.length > 0) {
           // Make one final call to get the AI's summary without tools
-          const finalResponse = await this.chat(messages, [], systemPrompt, {
-            concise: true,
-            maxTokens: 800,
-            temperature: 0.3,
-          });
+          const finalResponse = await requestTurn([]);
+          addUsage(finalResponse);
           const finalChoice = finalResponse.choices[0];
           if (finalChoice) {
             finalText =
@@ -199,21 +735,45 @@ export class GrokService {
           break;
         }
 
-        // Execute each tool via background proxy
-        for (const call of toolCalls) {
+        // Step mode: let the user edit or reject the proposed calls before anything runs
+        const rejectedCallIds = new Set<string>();
+        // Plan updates only change the side panel checklist, so they skip review
+        const reviewableCalls = toolCalls.filter((call) => call.function.name !== PLAN_TOOL_NAME);
+        if (settings.stepMode && options.onReviewToolCalls && reviewableCalls.length > 0) {
+          const reviews = await options.onReviewToolCalls(reviewableCalls);
+          throwIfAborted(signal);
+          for (const call of reviewableCalls) {
+            const review = reviews.find((r) => r.id === call.id);
+            if (!review?.approved) {
+              rejectedCallIds.add(call.id);
+            } else {
+              // assistantTurn shares these objects, so the transcript shows the edited arguments
+              call.function.arguments = review.arguments;
+            }
+          }
+        }
+
+        // Images must follow all tool messages of this turn, so collect them as we go
+        const imageParts: GrokContentPart[] = [];
+
+        // Execute a tool via background proxy
+        const runToolCall = (call: GrokToolCall): Promise<any> => {
           // Emit thinking data when starting tool execution
           onThinkingData?.({
             name: call.function.name,
             description: `Executing ${call.function.name}...`,
           });
-
-          const args = safeParseJson(call.function.arguments);
-          const exec = await chrome.runtime.sendMessage({
+          return chrome.runtime.sendMessage({
             type: BACKGROUND_MESSAGE_TYPES.EXECUTE_TOOL,
             name: call.function.name,
-            args,
+            args: safeParseJson(call.function.arguments),
+            conversationId: options.conversationId,
+            runId,
           });
+        };
 
+        // Append a tool message for a finished call; called in call order
+        const recordToolResult = (call: GrokToolCall, exec: any) => {
           if (!exec?.success) {
             messages.push({
               role: 'tool',
@@ -229,26 +789,90 @@ export class GrokService {
             executedToolCalls.push(toolCallResult);
             // Emit thinking data with result
             onThinkingData?.(toolCallResult);
-          } else {
-            const toolResult = exec.result;
-            const textPayload = Array.isArray(toolResult?.content)
-              ? toolResult.content.find((c: any) => c?.type === 'text')?.text || ''
-              : JSON.stringify(toolResult ?? {});
-            messages.push({
-              role: 'tool',
-              name: call.function.name,
-              tool_call_id: call.id,
-              content: String(textPayload),
-            });
-            const toolCallResult = {
-              name: call.function.name,
-              description: `Executed ${call.function.name}`,
-              result: toolResult,
-            };
-            executedToolCalls.push(toolCallResult);
-            // Emit thinking data with result
-            onThinkingData?.(toolCallResult);
+            return;
+          }
+
+          const toolResult = exec.result;
+          const parts: any[] = Array.isArray(toolResult?.content) ? toolResult.content : [];
+          const textPayload = Array.isArray(toolResult?.content)
+            ? parts.find((c: any) => c?.type === 'text')?.text || ''
+            : JSON.stringify(toolResult ?? {});
+          collectSources(safeParseJson(String(textPayload)), sources);
+          const images = parts.filter((c: any) => c?.type === 'image' && c.data);
+
+          let imageNote = '';
+          if (images.length > 0 && this.supportsVision()) {
+            imageParts.push({ type: 'text', text: `Image output from ${call.function.name}:` });
+            for (const image of images) {
+              imageParts.push({
+                type: 'image_url',
+                image_url: { url: `data:${image.mimeType || 'image/png'};base64,${image.data}` },
+              });
+            }
+            imageNote = `[${images.length} image(s) attached in the next message]`;
+          } else if (images.length > 0) {
+            imageNote = `[${images.length} image(s) omitted: model ${this.model} does not support vision]`;
           }
+
+          messages.push({
+            role: 'tool',
+            name: call.function.name,
+            tool_call_id: call.id,
+            content: [truncateToTokens(String(textPayload), budget.toolOutput), imageNote]
+              .filter(Boolean)
+              .join('\n'),
+          });
+          const toolCallResult = {
+            name: call.function.name,
+            description: `Executed ${call.function.name}`,
+            result: toolResult,
+          };
+          executedToolCalls.push(toolCallResult);
+          // Emit thinking data with result
+          onThinkingData?.(toolCallResult);
+        };
+
+        // Read-only calls in a row run concurrently; everything else runs alone, in order
+        for (const batch of groupToolCalls(toolCalls)) {
+          // Skip the remaining calls of this turn once the user has cancelled
+          throwIfAborted(signal);
+
+          const results = await Promise.all(
+            batch.map((call) =>
+              rejectedCallIds.has(call.id) || call.function.name === PLAN_TOOL_NAME
+                ? null
+                : runToolCall(call),
+            ),
+          );
+          batch.forEach((call, index) => {
+            // Every tool call needs a tool message, rejected ones included
+            if (rejectedCallIds.has(call.id)) {
+              messages.push({
+                role: 'tool',
+                name: call.function.name,
+                tool_call_id: call.id,
+                content: '{"error": "The user rejected this tool call"}',
+              });
+              onThinkingData?.({
+                name: call.function.name,
+                description: `Rejected ${call.function.name}`,
+              });
+            } else if (call.function.name === PLAN_TOOL_NAME) {
+              messages.push({
+                role: 'tool',
+                name: call.function.name,
+                tool_call_id: call.id,
+                content: applyPlanUpdate(call, options.onPlanUpdate),
+              });
+            } else {
+              recordToolResult(call, results[index]);
+            }
+          });
+        }
+
+        // Vision models only accept images on user turns, so forward tool images that way
+        if (imageParts.length > 0) {
+          messages.push({ role: 'user', content: imageParts });
         }
       }
 
@@ -260,29 +884,184 @@ export class GrokService {
             ? 'Task completed successfully with tool executions.'
             : 'Task completed successfully.'),
         toolCalls: executedToolCalls,
+        summary,
+        reasoning: reasoning || undefined,
+        reasoningTokens: reasoningTokens || undefined,
+        usage,
+        citations: citations.length > 0 ? citations : undefined,
+        sources: pickCitedSources(finalText, sources),
       };
     } catch (error) {
+      if (signal?.aborted) {
+        return {
+          success: false,
+          cancelled: true,
+          message: partialText,
+          toolCalls: executedToolCalls,
+          summary,
+          reasoning: reasoning || undefined,
+          reasoningTokens: reasoningTokens || undefined,
+          usage,
+          citations: citations.length > 0 ? citations : undefined,
+          sources: pickCitedSources(partialText, sources),
+        };
+      }
       console.error('Grok execution error:', error);
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error occurred',
+        summary,
+        errorKind: error instanceof ApiError ? error.kind : undefined,
+        checkpoint,
+        usage,
       };
+    } finally {
+      signal?.removeEventListener('abort', cancelBackgroundTools);
+    }
+  }
+
+  /**
+   * Drop the turns an existing summary covers, and fold older turns into a new summary
+   * once the rest of the history outgrows its budget. The most recent turns are always kept.
+   */
+  private async compactHistory(
+    history: GrokMessage[],
+    summary: ConversationSummary | undefined,
+    historyBudget: number,
+    signal?: AbortSignal,
+  ): Promise<{
+    messages: GrokMessage[];
+    summary?: ConversationSummary;
+    usage?: GrokResponse['usage'];
+  }> {
+    const covered = Math.min(summary?.coveredMessages ?? 0, history.length);
+    const recent = history.slice(covered);
+    if (estimateMessagesTokens(recent) <= historyBudget || recent.length <= KEEP_RECENT_MESSAGES) {
+      return { messages: recent, summary };
+    }
+
+    // Never start the kept history on a tool result separated from its call
+    let cut = history.length - KEEP_RECENT_MESSAGES;
+    while (cut < history.length - 1 && history[cut].role === 'tool') cut++;
+
+    const transcript = history
+      .slice(covered, cut)
+      .map((message) => {
+        const text =
+          typeof message.content === 'string'
+            ? message.content
+            : message.content
+                .map((part) => (part.type === 'text' ? part.text : '[image]'))
+                .join(' ');
+        return `${message.role.toUpperCase()}: ${truncateToTokens(text, 1000)}`;
+      })
+      .join('\n\n');
+
+    const response = await this.chat(
+      [
+        {
+          role: 'user',
+          content: truncateToTokens(
+            `${summary ? `Summary so far:\n${summary.text}\n\n` : ''}Conversation to add:\n${transcript}`,
+            historyBudget,
+          ),
+        },
+      ],
+      undefined,
+      'Summarize this conversation between a user and a browser assistant for the assistant to continue from. Keep facts, decisions, user preferences, URLs, and unfinished tasks. Write compact bullet points, under 300 words.',
+      { maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.2, signal },
+    );
+    const text = response.choices[0]?.message.content?.trim();
+    if (!text) {
+      // Keep working without a new summary; fitMessagesToBudget drops old turns instead
+      return { messages: recent, summary, usage: response.usage };
     }
+
+    return {
+      messages: history.slice(cut),
+      summary: { text, coveredMessages: cut, updatedAt: new Date().toISOString() },
+      usage: response.usage,
+    };
   }
 
   private enrichPromptWithContext(prompt: string, context: BrowserContext): string {
+    const { metadata, focusedField } = context;
+    const openGraph = Object.entries(metadata?.openGraph || {})
+      .map(([property, value]) => `${property}=${value}`)
+      .join(', ');
+    const jsonLd = metadata?.jsonLd?.length ? JSON.stringify(metadata.jsonLd) : '';
+    const lines = [
+      `- URL: ${context.url}`,
+      `- Title: ${context.title}`,
+      context.selectedText && `- Selected Text: ${context.selectedText}`,
+      metadata?.description && `- Description: ${metadata.description}`,
+      metadata?.siteName && `- Site: ${metadata.siteName}`,
+      metadata?.author && `- Author: ${metadata.author}`,
+      metadata?.published && `- Published: ${metadata.published}`,
+      openGraph && `- OpenGraph: ${openGraph}`,
+      jsonLd && `- Structured Data (JSON-LD): ${truncateChars(jsonLd, CONTEXT_JSON_LD_CHARS)}`,
+      focusedField &&
+        `- Focused Field: ${focusedField.tag} (type ${focusedField.type}${
+          focusedField.name ? `, name "${focusedField.name}"` : ''
+        }${focusedField.label ? `, label "${focusedField.label}"` : ''})${
+          focusedField.value ? ` containing "${focusedField.value}"` : ''
+        }`,
+      context.content &&
+        `- Page Content: ${truncateChars(context.content, CONTEXT_PAGE_TEXT_CHARS)}`,
+      context.screenshot &&
+        this.supportsVision() &&
+        '- A screenshot of the visible viewport is attached to the latest user message.',
+    ];
+
+    const attachedTabs = (context.attachedTabs || []).map((tab) =>
+      [
+        `### ${tab.title} [sourceId: ${tab.sourceId}]`,
+        `- URL: ${tab.url}`,
+        tab.content
+          ? truncateChars(tab.content, CONTEXT_ATTACHED_TAB_CHARS)
+          : `(content unavailable: ${tab.error || 'empty page'})`,
+      ].join('\n'),
+    );
+    const attachedSection =
+      attachedTabs.length > 0
+        ? `\n## Attached Tabs:\nThe user attached these tabs to the message. Cite them as [src:<sourceId>] when you use them.\n\n${attachedTabs.join('\n\n')}\n`
+        : '';
+
     return `${prompt}
 
 ## Current Browser Context:
-- URL: ${context.url}
-- Title: ${context.title}
-${context.selectedText ? `- Selected Text: ${context.selectedText}` : ''}
-${context.content ? `- Page Content: ${context.content.substring(0, 2000)}...` : ''}
-
+${lines.filter(Boolean).join('\n')}
+${attachedSection}
 Use this context to better understand the user's current situation and provide more relevant assistance.`;
   }
 
-  async getCurrentBrowserContext(): Promise<BrowserContext> {
+  /**
+   * Attach the viewport screenshot to the latest user turn; vision models only
+   */
+  private attachScreenshot(messages: GrokMessage[], context: BrowserContext): void {
+    if (!context.screenshot || !this.supportsVision()) return;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role !== 'user') continue;
+      // Replace rather than mutate; the message object belongs to the caller's history
+      const parts: GrokContentPart[] =
+        typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content;
+      messages[i] = {
+        ...message,
+        content: [
+          ...parts,
+          { type: 'image_url', image_url: { url: context.screenshot, detail: 'auto' } },
+        ],
+      };
+      return;
+    }
+  }
+
+  async getCurrentBrowserContext(
+    capture: ContextCaptureSettings = DEFAULT_CONTEXT_CAPTURE,
+  ): Promise<BrowserContext> {
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
 
@@ -308,12 +1087,121 @@ Use this context to better understand the user's current situation and provide m
         console.warn('Could not get selected text:', error);
       }
 
+      // The rest comes from the web-fetcher helper; restricted pages (chrome://, the web
+      // store) refuse injection, so each part is optional
+      if (capture.pageText || capture.metadata || capture.focusedField) {
+        try {
+          await chrome.scripting.executeScript({
+            target: { tabId: tab.id },
+            files: ['inject-scripts/web-fetcher-helper.js'],
+          });
+          if (capture.metadata || capture.focusedField) {
+            const response = await chrome.tabs.sendMessage(tab.id, { action: 'getPageContext' });
+            if (response?.success) {
+              if (capture.metadata) context.metadata = response.metadata;
+              if (capture.focusedField && response.focusedField) {
+                context.focusedField = response.focusedField;
+              }
+            }
+          }
+          if (capture.pageText) {
+            const response = await chrome.tabs.sendMessage(tab.id, { action: 'getTextContent' });
+            if (response?.success && response.textContent) {
+              context.content = response.textContent;
+            }
+          }
+        } catch (error) {
+          console.warn('Could not read page content:', error);
+        }
+      }
+
+      if (capture.screenshot) {
+        try {
+          context.screenshot = await chrome.tabs.captureVisibleTab(tab.windowId, {
+            format: 'jpeg',
+            quality: 70,
+          });
+        } catch (error) {
+          console.warn('Could not capture screenshot:', error);
+        }
+      }
+
       return context;
     } catch (error) {
       console.error('Failed to get browser context:', error);
       throw error;
     }
   }
+
+  /**
+   * Tabs of all windows, for the @tab picker
+   */
+  async listOpenTabs(): Promise<OpenTab[]> {
+    const response = await chrome.runtime.sendMessage({
+      type: BACKGROUND_MESSAGE_TYPES.EXECUTE_TOOL,
+      name: TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS,
+      args: {},
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || 'Failed to list tabs');
+    }
+    const listing = safeParseJson(response.result?.content?.[0]?.text || '{}');
+    return (listing.windows || []).flatMap((window: any) =>
+      (window.tabs || []).map((tab: any) => ({ ...tab, windowId: window.windowId })),
+    );
+  }
+
+  /**
+   * Read the text of tabs attached with the @tab picker without switching to them.
+   * A tab that cannot be read (restricted page, closed since) keeps its error.
+   */
+  async fetchAttachedTabs(tabs: OpenTab[]): Promise<AttachedTab[]> {
+    return Promise.all(
+      tabs.map(async (tab): Promise<AttachedTab> => {
+        const attached: AttachedTab = {
+          tabId: tab.tabId,
+          url: tab.url,
+          title: tab.title,
+          sourceId: tabSourceId(tab.tabId),
+        };
+        try {
+          const response = await chrome.runtime.sendMessage({
+            type: BACKGROUND_MESSAGE_TYPES.EXECUTE_TOOL,
+            name: TOOL_NAMES.BROWSER.WEB_FETCHER,
+            args: { tabId: tab.tabId, textContent: true },
+          });
+          const text = response?.result?.content?.[0]?.text || '';
+          if (!response?.success || response.result?.isError) {
+            return { ...attached, error: response?.error || text || 'Failed to read tab' };
+          }
+          const page = safeParseJson(text);
+          return {
+            ...attached,
+            url: page.url || attached.url,
+            title: page.title || attached.title,
+            content: page.textContent,
+            error: page.textContentError,
+          };
+        } catch (error) {
+          return { ...attached, error: error instanceof Error ? error.message : String(error) };
+        }
+      }),
+    );
+  }
+}
+
+function pickCitedSources(
+  text: string,
+  sources: Map<string, CitationSource>,
+): CitationSource[] | undefined {
+  const cited = citedSourceIds(text)
+    .map((id) => sources.get(id))
+    .filter((source): source is CitationSource => !!source);
+  return cited.length > 0 ? cited : undefined;
+}
+
+function truncateChars(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.substring(0, maxChars)}...` : text;
 }
 
 function safeParseJson(input: string): any {
@@ -323,3 +1211,83 @@ function safeParseJson(input: string): any {
     return {};
   }
 }
+
+/**
+ * Split a turn's tool calls into batches that can run together: consecutive
+ * parallel-safe calls share a batch, every other call gets its own
+ */
+function isParallelSafe(call: GrokToolCall): boolean {
+  return isParallelSafeTool(call.function.name, safeParseJson(call.function.arguments));
+}
+
+function groupToolCalls(toolCalls: GrokToolCall[]): GrokToolCall[][] {
+  const batches: GrokToolCall[][] = [];
+  for (const call of toolCalls) {
+    const last = batches[batches.length - 1];
+    if (last && isParallelSafe(call) && isParallelSafe(last[0])) {
+      last.push(call);
+    } else {
+      batches.push([call]);
+    }
+  }
+  return batches;
+}
+
+/**
+ * Validate an update_plan call and hand the plan to the side panel.
+ * Returns the tool message content for the model.
+ */
+function applyPlanUpdate(call: GrokToolCall, onPlanUpdate?: (steps: PlanStep[]) => void): string {
+  const rawSteps = safeParseJson(call.function.arguments)?.steps;
+  if (!Array.isArray(rawSteps)) {
+    return '{"error": "steps must be an array of {title, status}"}';
+  }
+
+  const steps: PlanStep[] = rawSteps
+    .filter((step: any) => typeof step?.title === 'string' && step.title.trim())
+    .map((step: any) => ({
+      title: step.title.trim(),
+      status: PLAN_STEP_STATUSES.includes(step.status) ? step.status : 'pending',
+    }));
+  onPlanUpdate?.(steps);
+
+  const completed = steps.filter((step) => step.status === 'completed').length;
+  return JSON.stringify({ success: true, completed, total: steps.length });
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Request cancelled', 'AbortError');
+  }
+}
+
+// Resolves after ms, or rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseSseLine(line: string): GrokStreamChunk | 'done' | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+
+  const data = trimmed.slice('data:'.length).trim();
+  if (data === '[DONE]') return 'done';
+
+  try {
+    return JSON.parse(data) as GrokStreamChunk;
+  } catch {
+    console.warn('Skipping malformed stream chunk:', data);
+    return null;
+  }
+}
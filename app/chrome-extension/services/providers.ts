@@ -0,0 +1,176 @@
+/**
+ * LLM provider configuration
+ * Every provider speaks the OpenAI chat completions API; they differ in base URL,
+ * how the API key is sent and which models they serve
+ */
+
+export type ProviderType = 'xai' | 'openai-compatible' | 'local';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl: string;
+  // Header that carries the API key; empty for endpoints without auth
+  authHeader: string;
+  // Prefix before the key in the auth header, e.g. 'Bearer'; empty to send the bare key
+  authScheme: string;
+  models: string[];
+}
+
+const PROVIDER_STORAGE_KEY = 'llm_provider';
+
+export const PROVIDER_LABELS: Record<ProviderType, string> = {
+  xai: 'xAI',
+  'openai-compatible': 'OpenAI-compatible',
+  local: 'Local (llama.cpp, Ollama)',
+};
+
+export const PROVIDER_PRESETS: Record<ProviderType, ProviderConfig> = {
+  xai: {
+    type: 'xai',
+    baseUrl: 'https://api.x.ai/v1',
+    authHeader: 'Authorization',
+    authScheme: 'Bearer',
+    // Fallback when the model listing is unavailable
+    models: [
+      'grok-4-fast-reasoning',
+      'grok-4-fast-non-reasoning',
+      'grok-4',
+      'grok-code-fast-1',
+      'grok-3',
+      'grok-3-mini',
+    ],
+  },
+  'openai-compatible': {
+    type: 'openai-compatible',
+    baseUrl: 'https://api.openai.com/v1',
+    authHeader: 'Authorization',
+    authScheme: 'Bearer',
+    models: [],
+  },
+  // Ollama's default port; llama.cpp's server listens on http://localhost:8080/v1
+  local: {
+    type: 'local',
+    baseUrl: 'http://localhost:11434/v1',
+    authHeader: '',
+    authScheme: '',
+    models: [],
+  },
+};
+
+export const DEFAULT_PROVIDER = PROVIDER_PRESETS.xai;
+
+export async function getProviderConfig(): Promise<ProviderConfig> {
+  try {
+    const result = await chrome.storage.sync.get([PROVIDER_STORAGE_KEY]);
+    const stored = result[PROVIDER_STORAGE_KEY];
+    return stored
+      ? { ...PROVIDER_PRESETS[stored.type as ProviderType], ...stored }
+      : DEFAULT_PROVIDER;
+  } catch (error) {
+    console.error('Failed to load provider config:', error);
+    return DEFAULT_PROVIDER;
+  }
+}
+
+export async function saveProviderConfig(config: ProviderConfig): Promise<void> {
+  await chrome.storage.sync.set({ [PROVIDER_STORAGE_KEY]: config });
+}
+
+export function providerRequiresApiKey(config: ProviderConfig): boolean {
+  return !!config.authHeader;
+}
+
+/**
+ * Build the auth header for a request; none when the provider takes no key or none is set
+ */
+export function buildAuthHeaders(
+  config: ProviderConfig,
+  apiKey: string | null,
+): Record<string, string> {
+  if (!config.authHeader || !apiKey) return {};
+  return {
+    [config.authHeader]: config.authScheme ? `${config.authScheme} ${apiKey}` : apiKey,
+  };
+}
+
+/**
+ * Endpoint URL under the provider's base URL, tolerating a trailing slash
+ */
+export function providerUrl(config: ProviderConfig, path: string): string {
+  return `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+export interface ModelInfo {
+  id: string;
+  vision: boolean;
+  // Native tool/function calling; browser tools are disabled for models without it
+  tools: boolean;
+  contextLength?: number;
+}
+
+export interface ModelCatalog {
+  models: ModelInfo[];
+  fetchedAt: number;
+  // True when the provider could not be reached and the last cached list is returned
+  fromCache: boolean;
+}
+
+// baseUrl -> last successful model listing
+const MODEL_CACHE_STORAGE_KEY = 'provider_model_cache';
+
+/**
+ * Normalise a model listing. Providers report capabilities in different shapes
+ * (OpenAI `data`, xAI `models` with modalities, OpenRouter `supported_parameters`,
+ * llama.cpp `meta`); missing fields fall back to name heuristics.
+ */
+export function parseModelListing(json: any): ModelInfo[] {
+  const entries: any[] = json?.data || json?.models || [];
+  return entries
+    .filter((entry) => typeof entry?.id === 'string')
+    .map((entry) => {
+      const modalities: string[] | undefined =
+        entry.input_modalities || entry.architecture?.input_modalities;
+      const parameters: string[] | undefined = entry.supported_parameters;
+      const contextLength =
+        entry.context_length ??
+        entry.context_window ??
+        entry.max_context_length ??
+        entry.meta?.n_ctx_train;
+
+      return {
+        id: entry.id,
+        vision: modalities ? modalities.includes('image') : guessVisionSupport(entry.id),
+        tools: parameters ? parameters.includes('tools') : true,
+        contextLength: typeof contextLength === 'number' ? contextLength : undefined,
+      };
+    });
+}
+
+/**
+ * Vision support by model name, for providers that do not report modalities
+ */
+export function guessVisionSupport(modelId: string): boolean {
+  const model = modelId.toLowerCase();
+  if (model.includes('vision')) return true;
+  // Every grok-4 variant takes image input except the code-focused ones
+  return model.startsWith('grok-4') && !model.includes('code');
+}
+
+export async function getCachedModels(
+  config: ProviderConfig,
+): Promise<{ models: ModelInfo[]; fetchedAt: number } | null> {
+  try {
+    const result = await chrome.storage.local.get([MODEL_CACHE_STORAGE_KEY]);
+    return result[MODEL_CACHE_STORAGE_KEY]?.[config.baseUrl] || null;
+  } catch (error) {
+    console.error('Failed to load cached models:', error);
+    return null;
+  }
+}
+
+export async function saveCachedModels(config: ProviderConfig, models: ModelInfo[]): Promise<void> {
+  const result = await chrome.storage.local.get([MODEL_CACHE_STORAGE_KEY]);
+  const cache = result[MODEL_CACHE_STORAGE_KEY] || {};
+  cache[config.baseUrl] = { models, fetchedAt: Date.now() };
+  await chrome.storage.local.set({ [MODEL_CACHE_STORAGE_KEY]: cache });
+}
@@ -0,0 +1,174 @@
+/**
+ * Secure storage service backed by chrome.storage.local
+ * Optionally encrypts values with AES-GCM using a non-extractable key kept in IndexedDB,
+ * so the raw key material never appears in extension storage
+ */
+
+export interface SecureStorageOptions {
+  encrypt?: boolean;
+}
+
+export interface EncryptedEnvelope {
+  __secure: 1;
+  iv: string;
+  data: string;
+}
+
+const KEY_DB_NAME = 'SecureStorageKeys';
+const KEY_DB_VERSION = 1;
+const KEY_STORE_NAME = 'keys';
+const DEFAULT_KEY_ID = 'default';
+const IV_LENGTH = 12;
+
+export class SecureStorage {
+  private static keyPromise: Promise<CryptoKey> | null = null;
+
+  /**
+   * Store a JSON-serialisable value
+   */
+  static async setItem(key: string, value: any, options: SecureStorageOptions = {}): Promise<void> {
+    const stored = options.encrypt ? await this.encrypt(value) : value;
+    await chrome.storage.local.set({ [key]: stored });
+  }
+
+  /**
+   * Read a value; encrypted entries are decrypted transparently.
+   * Values written before encryption was enabled are returned as-is.
+   */
+  static async getItem<T = any>(
+    key: string,
+    options: SecureStorageOptions = {},
+  ): Promise<T | null> {
+    const result = await chrome.storage.local.get([key]);
+    const stored = result[key];
+    if (stored === undefined) return null;
+
+    if (this.isEnvelope(stored)) {
+      return (await this.decrypt(stored)) as T;
+    }
+    if (options.encrypt) {
+      console.warn(`SecureStorage: "${key}" is not encrypted yet, it will be on next write`);
+    }
+    return stored as T;
+  }
+
+  static async removeItem(key: string): Promise<void> {
+    await chrome.storage.local.remove([key]);
+  }
+
+  /**
+   * Encrypt a JSON-serialisable value with AES-GCM
+   */
+  static async encryptWithKey(value: any, cryptoKey: CryptoKey): Promise<EncryptedEnvelope> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, plaintext);
+
+    return {
+      __secure: 1,
+      iv: bytesToBase64(iv),
+      data: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Decrypt an envelope produced by encryptWithKey. Throws if the key is wrong or data was altered.
+   */
+  static async decryptWithKey(envelope: EncryptedEnvelope, cryptoKey: CryptoKey): Promise<any> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+      cryptoKey,
+      base64ToBytes(envelope.data),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+
+  static isEnvelope(value: any): value is EncryptedEnvelope {
+    return (
+      !!value &&
+      value.__secure === 1 &&
+      typeof value.iv === 'string' &&
+      typeof value.data === 'string'
+    );
+  }
+
+  private static async encrypt(value: any): Promise<EncryptedEnvelope> {
+    return this.encryptWithKey(value, await this.getDefaultKey());
+  }
+
+  private static async decrypt(envelope: EncryptedEnvelope): Promise<any> {
+    return this.decryptWithKey(envelope, await this.getDefaultKey());
+  }
+
+  /**
+   * Load the default key from IndexedDB, generating it on first use
+   */
+  private static getDefaultKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const db = await openKeyDatabase();
+        const existing = await idbRequest<CryptoKey | undefined>(
+          db
+            .transaction([KEY_STORE_NAME], 'readonly')
+            .objectStore(KEY_STORE_NAME)
+            .get(DEFAULT_KEY_ID),
+        );
+        if (existing) return existing;
+
+        const generated = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+          'encrypt',
+          'decrypt',
+        ]);
+        await idbRequest(
+          db
+            .transaction([KEY_STORE_NAME], 'readwrite')
+            .objectStore(KEY_STORE_NAME)
+            .put(generated, DEFAULT_KEY_ID),
+        );
+        return generated;
+      })().catch((error) => {
+        // Allow a retry on the next call instead of caching the failure
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, KEY_DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(KEY_STORE_NAME)) {
+        request.result.createObjectStore(KEY_STORE_NAME);
+      }
+    };
+  });
+}
+
+function idbRequest<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -28,6 +28,11 @@ export interface SecurityMetrics {
   threatLevel: 'low' | 'medium' | 'high' | 'critical';
 }
 
+export interface SecurityVerdict {
+  blocked: boolean;
+  reason?: string;
+}
+
 export interface ThreatPattern {
   id: string;
   name: string;
@@ -52,9 +57,17 @@ export class SecurityMonitor {
   private static readonly HIGH_FREQUENCY_THRESHOLD = 10; // Events per minute
   private static readonly RATE_LIMIT_WINDOW = 1000; // 1 second
   private static readonly RATE_LIMIT_MAX_EVENTS = 5; // Max events per second
+  private static readonly FLUSH_DELAY_MS = 1000; // Batch window for event log writes
   private static rateLimitTimestamps: number[] = [];
   private static enabled: boolean = true;
+  // Tail of the queued event log writes; see withStorageLock
+  private static storageLock: Promise<void> = Promise.resolve();
+  // Event log kept in memory and written back in batches; see scheduleFlush
+  private static eventsLoad: Promise<SecurityEvent[]> | null = null;
+  private static flushTimer: ReturnType<typeof setTimeout> | null = null;
   private static storageListenerRegistered = false;
+  // Events emitted by the monitor itself are not re-checked, otherwise alerts would feed back into detection
+  private static readonly INTERNAL_SOURCES = ['security_monitor', 'anomaly_detector'];
 
   private static threatPatterns: ThreatPattern[] = [
     {
@@ -78,7 +91,13 @@ export class SecurityMonitor {
       name: 'Failed Authentication Attempts',
       description: 'Multiple failed authentication attempts from external sources',
       indicators: [
-        { type: 'authentication', field: 'success', operator: 'equals', value: false, weight: 0.3 },
+        {
+          type: 'authentication',
+          field: 'details.success',
+          operator: 'equals',
+          value: false,
+          weight: 0.3,
+        },
         {
           type: 'authentication',
           field: 'source',
@@ -104,12 +123,18 @@ export class SecurityMonitor {
       indicators: [
         {
           type: 'network',
-          field: 'domain',
+          field: 'details.domain',
           operator: 'regex',
           value: /[0-9]+\.[0-9]+\.[0-9]+\.[0-9]+/,
           weight: 0.8,
         },
-        { type: 'network', field: 'protocol', operator: 'equals', value: 'http', weight: 0.3 },
+        {
+          type: 'network',
+          field: 'details.protocol',
+          operator: 'equals',
+          value: 'http',
+          weight: 0.3,
+        },
       ],
       threshold: 0.8,
       action: 'alert',
@@ -119,10 +144,16 @@ export class SecurityMonitor {
       name: 'Permission Escalation Attempt',
       description: 'Attempt to escalate permissions without user consent',
       indicators: [
-        { type: 'permission', field: 'escalation', operator: 'equals', value: true, weight: 1.0 },
         {
           type: 'permission',
-          field: 'consent_bypassed',
+          field: 'details.escalation',
+          operator: 'equals',
+          value: true,
+          weight: 1.0,
+        },
+        {
+          type: 'permission',
+          field: 'details.consent_bypassed',
           operator: 'equals',
           value: true,
           weight: 2.0,
@@ -136,10 +167,16 @@ export class SecurityMonitor {
       name: 'Potential Data Exfiltration',
       description: 'Large amounts of data being accessed or transmitted',
       indicators: [
-        { type: 'data_access', field: 'size_mb', operator: 'greater_than', value: 10, weight: 0.7 },
+        {
+          type: 'data_access',
+          field: 'details.size_mb',
+          operator: 'greater_than',
+          value: 10,
+          weight: 0.7,
+        },
         {
           type: 'network',
-          field: 'upload_size_mb',
+          field: 'details.upload_size_mb',
           operator: 'greater_than',
           value: 5,
           weight: 1.0,
@@ -148,6 +185,30 @@ export class SecurityMonitor {
       threshold: 1.0,
       action: 'alert',
     },
+    {
+      id: 'script_injection_sensitive_page',
+      name: 'Script Injection on Sensitive Page',
+      description: 'Injecting scripts into login, payment or account pages',
+      indicators: [
+        {
+          type: 'tool_usage',
+          field: 'details.tool',
+          operator: 'equals',
+          value: 'chrome_inject_script',
+          weight: 0.5,
+        },
+        {
+          type: 'tool_usage',
+          field: 'url_host_or_path',
+          operator: 'regex',
+          value:
+            /(^|[/._-])(login|signin|sign-in|auth|checkout|payment|billing|account|bank)([/._-]|$)/i,
+          weight: 0.5,
+        },
+      ],
+      threshold: 1.0,
+      action: 'block',
+    },
   ];
 
   /**
@@ -197,16 +258,16 @@ export class SecurityMonitor {
   }
 
   /**
-   * Log a security event
+   * Log a security event and report whether a matching threat pattern blocks it
    */
-  static async logEvent(event: Omit<SecurityEvent, 'id' | 'timestamp'>): Promise<void> {
+  static async logEvent(event: Omit<SecurityEvent, 'id' | 'timestamp'>): Promise<SecurityVerdict> {
     try {
       // Respect global enabled flag
-      if (!this.enabled) return;
+      if (!this.enabled) return { blocked: false };
 
       // Apply rate limiting for low-severity events
       if (event.severity === 'low' && this.shouldRateLimit()) {
-        return; // Silently drop rate-limited low-severity events
+        return { blocked: false }; // Silently drop rate-limited low-severity events
       }
 
       const fullEvent: SecurityEvent = {
@@ -220,31 +281,97 @@ export class SecurityMonitor {
         fullEvent.userAgent = navigator.userAgent;
       }
 
-      // Get existing events
-      const events = await this.getStoredEvents();
-      events.push(fullEvent);
+      await this.appendEvent(fullEvent);
 
-      // Limit stored events
-      if (events.length > this.MAX_STORED_EVENTS) {
-        events.splice(0, events.length - this.MAX_STORED_EVENTS);
-      }
-
-      // Store events
-      await SecureStorage.setItem(this.EVENTS_STORAGE_KEY, events, { encrypt: true });
+      console.log(`Security event logged: ${event.type} - ${event.severity}`, fullEvent);
 
-      // Update metrics
-      await this.updateMetrics();
+      if (this.INTERNAL_SOURCES.includes(fullEvent.source)) {
+        return { blocked: false };
+      }
 
       // Check for threats
-      await this.checkThreatPatterns(fullEvent);
+      const triggered = await this.checkThreatPatterns(fullEvent);
 
       // Check for anomalies
       await this.checkAnomalies(fullEvent);
 
-      console.log(`Security event logged: ${event.type} - ${event.severity}`, fullEvent);
+      const blocking = triggered.find((pattern) => pattern.action === 'block');
+      return blocking
+        ? { blocked: true, reason: `${blocking.name}: ${blocking.description}` }
+        : { blocked: false };
     } catch (error) {
       console.error('Failed to log security event:', error);
+      return { blocked: false };
+    }
+  }
+
+  /**
+   * Mark an event as reviewed by the user
+   */
+  static async resolveEvent(eventId: string, resolvedBy: string = 'user'): Promise<boolean> {
+    try {
+      const events = await this.loadEvents();
+      const event = events.find((e) => e.id === eventId);
+      if (!event) return false;
+
+      event.resolved = true;
+      event.resolvedBy = resolvedBy;
+      event.resolvedAt = Date.now();
+      this.scheduleFlush();
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve security event:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Add an event to the in-memory log, dropping the oldest beyond the limit
+   */
+  private static async appendEvent(event: SecurityEvent): Promise<void> {
+    const events = await this.loadEvents();
+    events.push(event);
+    if (events.length > this.MAX_STORED_EVENTS) {
+      events.splice(0, events.length - this.MAX_STORED_EVENTS);
     }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Write the event log at most once per batch window instead of re-encrypting it per event
+   */
+  private static scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushEvents().catch((error) => console.error('Failed to save security events:', error));
+    }, this.FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Write pending event log changes and the metrics derived from them
+   */
+  private static flushEvents(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    return this.withStorageLock(async () => {
+      const events = await this.loadEvents();
+      await SecureStorage.setItem(this.EVENTS_STORAGE_KEY, events, { encrypt: true });
+      await this.updateMetrics();
+    });
+  }
+
+  /**
+   * Run event log writes one at a time so an older snapshot never lands after a newer one
+   */
+  private static withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.storageLock.then(task, task);
+    this.storageLock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
   }
 
   /**
@@ -290,15 +417,27 @@ export class SecurityMonitor {
   }
 
   /**
-   * Get stored security events
+   * Load the event log from storage once; later calls share the in-memory copy
    */
-  private static async getStoredEvents(): Promise<SecurityEvent[]> {
-    try {
-      return (await SecureStorage.getItem(this.EVENTS_STORAGE_KEY, { encrypt: true })) || [];
-    } catch (error) {
-      console.error('Failed to retrieve security events:', error);
-      return [];
+  private static loadEvents(): Promise<SecurityEvent[]> {
+    if (!this.eventsLoad) {
+      this.eventsLoad = SecureStorage.getItem<SecurityEvent[]>(this.EVENTS_STORAGE_KEY, {
+        encrypt: true,
+      })
+        .then((events) => events || [])
+        .catch((error) => {
+          console.error('Failed to retrieve security events:', error);
+          return [];
+        });
     }
+    return this.eventsLoad;
+  }
+
+  /**
+   * Get a copy of the security events
+   */
+  private static async getStoredEvents(): Promise<SecurityEvent[]> {
+    return [...(await this.loadEvents())];
   }
 
   /**
@@ -306,6 +445,9 @@ export class SecurityMonitor {
    */
   static async getMetrics(): Promise<SecurityMetrics> {
     try {
+      // Metrics are written with the event log; bring them up to date first
+      if (this.flushTimer) await this.flushEvents();
+
       const defaultMetrics: SecurityMetrics = {
         totalEvents: 0,
         eventsByType: {},
@@ -408,19 +550,23 @@ export class SecurityMonitor {
   }
 
   /**
-   * Check for threat patterns
+   * Check for threat patterns, returning the patterns that matched
    */
-  private static async checkThreatPatterns(event: SecurityEvent): Promise<void> {
+  private static async checkThreatPatterns(event: SecurityEvent): Promise<ThreatPattern[]> {
     const events = await this.getStoredEvents();
     const recentEvents = events.filter((e) => Date.now() - e.timestamp < 60 * 60 * 1000); // Last hour
+    const triggered: ThreatPattern[] = [];
 
     for (const pattern of this.threatPatterns) {
       const score = this.evaluateThreatPattern(pattern, event, recentEvents);
 
       if (score >= pattern.threshold) {
         await this.handleThreatDetection(pattern, event, score);
+        triggered.push(pattern);
       }
     }
+
+    return triggered;
   }
 
   /**
@@ -471,6 +617,17 @@ export class SecurityMonitor {
       return this.compareValues(count, operator, value);
     }
 
+    // Match the host and the path of the event's URL separately, never the query
+    if (field === 'url_host_or_path') {
+      let url: URL;
+      try {
+        url = new URL(event.details?.url);
+      } catch {
+        return false;
+      }
+      return [url.hostname, url.pathname].some((part) => this.compareValues(part, operator, value));
+    }
+
     // Handle regular fields
     const fieldValue = this.getNestedValue(event, field);
     return this.compareValues(fieldValue, operator, value);
@@ -528,9 +685,7 @@ export class SecurityMonitor {
     };
 
     // Log the threat detection
-    const events = await this.getStoredEvents();
-    events.push(threatEvent);
-    await SecureStorage.setItem(this.EVENTS_STORAGE_KEY, events, { encrypt: true });
+    await this.appendEvent(threatEvent);
 
     console.warn(`Threat detected: ${pattern.name}`, {
       pattern: pattern.id,
@@ -651,8 +806,9 @@ export class SecurityMonitor {
       {} as { [key: string]: number },
     );
 
+    // Only alert when the current event's type crosses the threshold, not on every event after it
     for (const [type, count] of Object.entries(typeFrequencies)) {
-      if (count > this.HIGH_FREQUENCY_THRESHOLD) {
+      if (type === event.type && count === this.HIGH_FREQUENCY_THRESHOLD + 1) {
         await this.logEvent({
           type: 'system',
           severity: 'medium',
@@ -702,13 +858,15 @@ export class SecurityMonitor {
    */
   private static async cleanupOldEvents(): Promise<void> {
     try {
-      const events = await this.getStoredEvents();
+      const events = await this.loadEvents();
       const cutoffTime = Date.now() - 30 * 24 * 60 * 60 * 1000; // 30 days
       const recentEvents = events.filter((event) => event.timestamp > cutoffTime);
 
       if (recentEvents.length !== events.length) {
-        await SecureStorage.setItem(this.EVENTS_STORAGE_KEY, recentEvents, { encrypt: true });
-        console.log(`Cleaned up ${events.length - recentEvents.length} old security events`);
+        const removed = events.length - recentEvents.length;
+        events.splice(0, events.length, ...recentEvents);
+        this.scheduleFlush();
+        console.log(`Cleaned up ${removed} old security events`);
       }
     } catch (error) {
       console.error('Failed to cleanup old events:', error);
@@ -795,8 +953,15 @@ export class SecurityMonitor {
    */
   static async clearEvents(): Promise<void> {
     try {
-      await SecureStorage.removeItem(this.EVENTS_STORAGE_KEY);
-      await SecureStorage.removeItem(this.METRICS_STORAGE_KEY);
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+      await this.withStorageLock(async () => {
+        this.eventsLoad = Promise.resolve([]);
+        await SecureStorage.removeItem(this.EVENTS_STORAGE_KEY);
+        await SecureStorage.removeItem(this.METRICS_STORAGE_KEY);
+      });
       console.log('All security events cleared');
     } catch (error) {
       console.error('Failed to clear security events:', error);
@@ -0,0 +1,182 @@
+/**
+ * Usage and cost tracking
+ * Per-model prices turn token counts into dollars; daily totals back the usage chart
+ * and the spend caps a team can set on a shared key
+ */
+
+import type { ProviderConfig } from './providers';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Sources used by xAI Live Search
+  searchSources?: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  cost: number;
+  requests: number;
+}
+
+export type SpendLimitAction = 'block' | 'confirm';
+
+export interface SpendLimits {
+  // USD; 0 disables the cap
+  daily: number;
+  monthly: number;
+  // Refuse new requests once a cap is exceeded, or ask before each one
+  action: SpendLimitAction;
+}
+
+export interface SpendCheck {
+  exceeded: 'daily' | 'monthly' | null;
+  spent: number;
+  limit: number;
+}
+
+const PRICE_OVERRIDES_STORAGE_KEY = 'model_price_overrides';
+const SPEND_LIMITS_STORAGE_KEY = 'spend_limits';
+const DAILY_USAGE_STORAGE_KEY = 'usage_daily';
+// Days of history kept for the chart and monthly totals
+const DAILY_USAGE_RETENTION_DAYS = 90;
+// xAI bills Live Search at $25 per 1,000 sources
+const LIVE_SEARCH_SOURCE_PRICE = 0.025;
+
+// Published list prices; dated ids (e.g. grok-4-0709) and -latest aliases share their model's price
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'grok-4-fast-reasoning': { input: 0.2, output: 0.5 },
+  'grok-4-fast-non-reasoning': { input: 0.2, output: 0.5 },
+  'grok-4': { input: 3, output: 15 },
+  'grok-code-fast-1': { input: 0.2, output: 1.5 },
+  'grok-3': { input: 3, output: 15 },
+  'grok-3-mini': { input: 0.3, output: 0.5 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+export const DEFAULT_SPEND_LIMITS: SpendLimits = { daily: 0, monthly: 0, action: 'confirm' };
+
+export async function getPriceOverrides(): Promise<Record<string, ModelPrice>> {
+  try {
+    const result = await chrome.storage.sync.get([PRICE_OVERRIDES_STORAGE_KEY]);
+    return result[PRICE_OVERRIDES_STORAGE_KEY] || {};
+  } catch (error) {
+    console.error('Failed to load price overrides:', error);
+    return {};
+  }
+}
+
+export async function savePriceOverrides(overrides: Record<string, ModelPrice>): Promise<void> {
+  await chrome.storage.sync.set({ [PRICE_OVERRIDES_STORAGE_KEY]: overrides });
+}
+
+/**
+ * Price for a model: user overrides first, then the built-in table, exact id before a dated
+ * or -latest variant of a known id. Local models are free; other unknown models have no price.
+ */
+export function getModelPrice(
+  model: string,
+  provider: ProviderConfig,
+  overrides: Record<string, ModelPrice> = {},
+): ModelPrice | null {
+  const prices = { ...MODEL_PRICES, ...overrides };
+  if (prices[model]) return prices[model];
+  if (provider.type === 'local') return { input: 0, output: 0 };
+
+  // Only a version suffix counts, so grok-4-fast is not priced as grok-4
+  const base = model.match(/^(.+?)(-\d{4}(-\d{2}-\d{2})?|-latest)$/)?.[1];
+  return base && prices[base] ? prices[base] : null;
+}
+
+export function computeCost(usage: TokenUsage, price: ModelPrice | null): number {
+  const searchCost = (usage.searchSources || 0) * LIVE_SEARCH_SOURCE_PRICE;
+  if (!price) return searchCost;
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 +
+    searchCost
+  );
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+// Local calendar date, YYYY-MM-DD
+export function dayKey(date: Date = new Date()): string {
+  return date.toLocaleDateString('en-CA');
+}
+
+export async function getDailyUsage(): Promise<Record<string, DailyUsage>> {
+  try {
+    const result = await chrome.storage.local.get([DAILY_USAGE_STORAGE_KEY]);
+    return result[DAILY_USAGE_STORAGE_KEY] || {};
+  } catch (error) {
+    console.error('Failed to load daily usage:', error);
+    return {};
+  }
+}
+
+/**
+ * Add one request's tokens and cost to today's totals, dropping days past retention
+ */
+export async function recordUsage(usage: TokenUsage, cost: number): Promise<void> {
+  const daily = await getDailyUsage();
+  const today = dayKey();
+  const entry = daily[today] || { promptTokens: 0, completionTokens: 0, cost: 0, requests: 0 };
+  daily[today] = {
+    promptTokens: entry.promptTokens + usage.promptTokens,
+    completionTokens: entry.completionTokens + usage.completionTokens,
+    cost: entry.cost + cost,
+    requests: entry.requests + 1,
+  };
+
+  const cutoff = dayKey(new Date(Date.now() - DAILY_USAGE_RETENTION_DAYS * 86_400_000));
+  for (const day of Object.keys(daily)) {
+    if (day < cutoff) delete daily[day];
+  }
+  await chrome.storage.local.set({ [DAILY_USAGE_STORAGE_KEY]: daily });
+}
+
+export async function getSpendLimits(): Promise<SpendLimits> {
+  try {
+    const result = await chrome.storage.sync.get([SPEND_LIMITS_STORAGE_KEY]);
+    return { ...DEFAULT_SPEND_LIMITS, ...result[SPEND_LIMITS_STORAGE_KEY] };
+  } catch (error) {
+    console.error('Failed to load spend limits:', error);
+    return DEFAULT_SPEND_LIMITS;
+  }
+}
+
+export async function saveSpendLimits(limits: SpendLimits): Promise<void> {
+  await chrome.storage.sync.set({ [SPEND_LIMITS_STORAGE_KEY]: limits });
+}
+
+/**
+ * Spend today and this month against the caps; the daily cap is reported first
+ */
+export async function checkSpendLimits(limits: SpendLimits): Promise<SpendCheck> {
+  const daily = await getDailyUsage();
+  const today = dayKey();
+  const month = today.slice(0, 7);
+  const spentToday = daily[today]?.cost || 0;
+  const spentMonth = Object.entries(daily)
+    .filter(([day]) => day.startsWith(month))
+    .reduce((sum, [, entry]) => sum + entry.cost, 0);
+
+  if (limits.daily > 0 && spentToday >= limits.daily) {
+    return { exceeded: 'daily', spent: spentToday, limit: limits.daily };
+  }
+  if (limits.monthly > 0 && spentMonth >= limits.monthly) {
+    return { exceeded: 'monthly', spent: spentMonth, limit: limits.monthly };
+  }
+  return { exceeded: null, spent: spentToday, limit: limits.daily };
+}
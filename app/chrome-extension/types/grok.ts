@@ -1,6 +1,13 @@
+import type { CitationSource } from '../common/citations';
+
+export type GrokContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
 export interface GrokMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  // Multi-part arrays are only valid on user turns; tool results must stay plain text
+  content: string | GrokContentPart[];
   name?: string;
   tool_calls?: {
     id: string;
@@ -13,6 +20,8 @@ export interface GrokMessage {
   tool_call_id?: string;
 }
 
+export type GrokToolCall = NonNullable<GrokMessage['tool_calls']>[number];
+
 export interface GrokTool {
   type: 'function';
   function: {
@@ -36,6 +45,9 @@ export interface GrokResponse {
     message: {
       role: 'assistant';
       content: string | null;
+      // Reasoning trace from reasoning models; some OpenAI-compatible servers call it `reasoning`
+      reasoning_content?: string | null;
+      reasoning?: string | null;
       tool_calls?: {
         id: string;
         type: 'function';
@@ -51,23 +63,225 @@ export interface GrokResponse {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    completion_tokens_details?: {
+      reasoning_tokens?: number;
+    };
+    // Sources xAI Live Search pulled in; billed per source
+    num_sources_used?: number;
   };
+  // Source URLs from xAI Live Search
+  citations?: string[];
+}
+
+export interface GrokStreamChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }[];
+    };
+    finish_reason: 'stop' | 'tool_calls' | 'length' | null;
+  }[];
+  usage?: GrokResponse['usage'];
+  // Sent with the final chunk when Live Search returns citations
+  citations?: string[];
+}
+
+// xAI Live Search: 'auto' lets the model decide, 'off' never searches the web
+export type LiveSearchMode = 'auto' | 'on' | 'off';
+
+export interface ConversationSummary {
+  text: string;
+  // Number of leading conversation messages the summary replaces
+  coveredMessages: number;
+  updatedAt: string;
+}
+
+export interface AgentSettings {
+  // Model turns per request before the agent is asked for a final answer
+  maxSteps: number;
+  maxTokens: number;
+  temperature: number;
+  concise: boolean;
+  // Pause after each model turn so the user can review its tool calls
+  stepMode: boolean;
+}
+
+// The user's verdict on one proposed tool call in step mode
+export interface ToolCallReview {
+  id: string;
+  approved: boolean;
+  // JSON arguments, possibly edited by the user
+  arguments: string;
+}
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+export interface PlanStep {
+  title: string;
+  status: PlanStepStatus;
+}
+
+// How a failed API request is reported; the first three are retried automatically
+export type ApiErrorKind = 'rate_limit' | 'server' | 'network' | 'quota' | 'auth' | 'other';
+
+export interface RetryNotice {
+  // The attempt that just failed, and how many are made in total
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  kind: ApiErrorKind;
+}
+
+// State of the tool loop after its last completed step, enough to continue a failed run
+export interface ResumeCheckpoint {
+  messages: GrokMessage[];
+  systemPrompt: string;
+  step: number;
+}
+
+export interface ExecuteOptions {
+  // Receives the accumulated assistant text of the current model turn while it streams
+  onStreamText?: (text: string) => void;
+  // Aborts the in-flight request, skips pending tool calls and stops running background tools
+  signal?: AbortSignal;
+  // Rolling summary stored with the conversation; the history it covers is not resent
+  summary?: ConversationSummary;
+  settings?: AgentSettings;
+  // Called in step mode with each turn's tool calls; only approved calls run
+  onReviewToolCalls?: (toolCalls: GrokToolCall[]) => Promise<ToolCallReview[]>;
+  // Receives the full plan each time the model updates it; enables the update_plan tool
+  onPlanUpdate?: (steps: PlanStep[]) => void;
+  // Receives the reasoning trace of the run so far, for reasoning models that return one
+  onReasoning?: (reasoning: string) => void;
+  // Called before each automatic retry of a failed API request
+  onRetry?: (notice: RetryNotice) => void;
+  // Continue a failed run from its checkpoint instead of starting from the history
+  resumeFrom?: ResumeCheckpoint;
+  // Scopes conversation state kept by tools, such as the TODO list
+  conversationId?: string;
+}
+
+// What getCurrentBrowserContext captures from the active tab for each message
+export interface ContextCaptureSettings {
+  // Readable main text, through the web-fetcher helper
+  pageText: boolean;
+  // Viewport screenshot; only sent to vision models
+  screenshot: boolean;
+  // Meta description, OpenGraph and JSON-LD
+  metadata: boolean;
+  // Field with focus and its value, unless the value is secret
+  focusedField: boolean;
+}
+
+export interface PageMetadata {
+  description?: string;
+  author?: string;
+  published?: string;
+  siteName?: string;
+  openGraph?: Record<string, string>;
+  jsonLd?: any[];
+}
+
+export interface FocusedField {
+  tag: string;
+  type: string;
+  name: string;
+  id: string;
+  label: string;
+  // Empty for password fields
+  value: string;
 }
 
 export interface BrowserContext {
   url: string;
   title: string;
   content?: string;
+  // Data URL of the visible viewport
   screenshot?: string;
   selectedText?: string;
+  metadata?: PageMetadata;
+  focusedField?: FocusedField;
+  // Other tabs the user attached with the @tab picker
+  attachedTabs?: AttachedTab[];
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+// Local file attached in the composer, stored with the conversation
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  // Images: downscaled data URL sent to vision models; PDFs: the original file.
+  // Stored conversations keep it in the attachment store rather than on the message
+  dataUrl?: string;
+  // Text files and extracted PDF text, already cut to the inline limit
+  text?: string;
+  truncated?: boolean;
+}
+
+export interface OpenTab {
+  tabId: number;
+  windowId: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+export interface AttachedTab {
+  tabId: number;
+  url: string;
+  title: string;
+  sourceId: string;
+  content?: string;
+  error?: string;
 }
 
 export interface TaskResult {
   success: boolean;
+  // Set when the run was aborted; message then holds the partial assistant text
+  cancelled?: boolean;
   message: string;
   toolCalls?: {
     name: string;
     description: string;
     result: any;
   }[];
+  // Updated rolling summary, to be stored with the conversation
+  summary?: ConversationSummary;
+  // Reasoning trace of every model turn in the run, and the tokens spent on it
+  reasoning?: string;
+  reasoningTokens?: number;
+  // Set when the run failed on an API error that retrying did not fix
+  errorKind?: ApiErrorKind;
+  // Set when the run failed after at least one tool step, to resume from there
+  checkpoint?: ResumeCheckpoint;
+  // Tokens billed across every request of the run
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    searchSources?: number;
+  };
+  // Live Search source URLs across the run, in first-cited order
+  citations?: string[];
+  // Tool result sources the answer cites with [src:<id>] markers, in first-cited order
+  sources?: CitationSource[];
 }
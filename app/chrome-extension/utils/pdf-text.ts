@@ -0,0 +1,211 @@
+/**
+ * PDF text extraction
+ * Reads the text-showing operators of a PDF's content streams without a PDF library.
+ * Works for Flate, ASCII85 and ASCIIHex streams with simple font encodings. Composite (CID)
+ * fonts, used by Chrome's Print to PDF and Word, show glyph ids rather than characters, so
+ * such files are reported as unreadable instead of returning noise.
+ */
+
+// Filters of content streams that can be decoded here; others are counted and reported
+const SUPPORTED_FILTERS = ['FlateDecode', 'ASCII85Decode', 'ASCIIHexDecode'];
+// Type0 fonts and Identity CMaps map two-byte glyph ids, not character codes
+const COMPOSITE_FONT_PATTERN = /\/Subtype\s*\/Type0\b|\/Encoding\s*\/Identity-[HV]\b/;
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  // The end-of-line before "endstream" is not part of the data and breaks the decoder
+  let end = bytes.length;
+  while (end > 0 && (bytes[end - 1] === 0x0a || bytes[end - 1] === 0x0d)) end--;
+  const stream = new Blob([bytes.subarray(0, end)])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function decodeAscii85(bytes: Uint8Array): Uint8Array {
+  const input = latin1(bytes).replace(/\s/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+  const output: number[] = [];
+  let group: number[] = [];
+  const flush = (length: number) => {
+    while (group.length < 5) group.push(84); // Pad with 'u'
+    const value = group.reduce((sum, digit) => sum * 85 + digit, 0);
+    const word = [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    output.push(...word.slice(0, length));
+    group = [];
+  };
+  for (const char of input) {
+    if (char === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 0) flush(group.length - 1);
+  return new Uint8Array(output);
+}
+
+function decodeAsciiHex(bytes: Uint8Array): Uint8Array {
+  const hex = latin1(bytes)
+    .replace(/>.*$/s, '')
+    .replace(/[^0-9A-Fa-f]/g, '');
+  const output = new Uint8Array(Math.ceil(hex.length / 2));
+  for (let i = 0; i < output.length; i++)
+    output[i] = parseInt(hex.slice(i * 2, i * 2 + 2).padEnd(2, '0'), 16);
+  return output;
+}
+
+/**
+ * Apply a stream's filter chain in order; null when a filter is not supported
+ */
+async function decodeStream(bytes: Uint8Array, filters: string[]): Promise<Uint8Array | null> {
+  let data = bytes;
+  for (const filter of filters) {
+    if (filter === 'FlateDecode') data = await inflate(data);
+    else if (filter === 'ASCII85Decode') data = decodeAscii85(data);
+    else if (filter === 'ASCIIHexDecode') data = decodeAsciiHex(data);
+    else return null;
+  }
+  return data;
+}
+
+// Names in a stream dictionary's /Filter entry, a single name or an array
+function streamFilters(dictionary: string): string[] {
+  const entry = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+  return entry ? Array.from(entry.matchAll(/\/(\w+)/g), (name) => name[1]) : [];
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+// Decode a (literal) string body, handling escapes and octal codes
+function decodeLiteral(body: string): string {
+  return body.replace(/\\(\d{1,3}|[\s\S])/g, (_match, escaped: string) => {
+    if (/^\d/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    const named: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '' };
+    if (escaped in named) return named[escaped];
+    // A backslash before a line break continues the string
+    return escaped === '\n' || escaped === '\r' ? '' : escaped;
+  });
+}
+
+function decodeHex(hex: string): string {
+  const clean = hex.replace(/\s/g, '');
+  const codes: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) codes.push(parseInt(clean.slice(i, i + 2), 16) || 0);
+  // Two-byte codes with a zero high byte are usually UTF-16 for Latin text
+  if (codes.length % 2 === 0 && codes.length > 0 && codes.every((c, i) => i % 2 === 1 || !c)) {
+    return String.fromCharCode(...codes.filter((_c, i) => i % 2 === 1));
+  }
+  return String.fromCharCode(...codes);
+}
+
+/**
+ * Text of one content stream: strings shown by Tj, TJ, ' and " with line breaks from
+ * text positioning operators
+ */
+function extractStreamText(content: string): string {
+  const tokens =
+    content.match(/\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|[A-Za-z*'"]+|-?[\d.]+/g) || [];
+  let text = '';
+  let pending: string[] = [];
+  let lastOperand = 0;
+  for (const token of tokens) {
+    if (token.startsWith('(')) {
+      pending.push(decodeLiteral(token.slice(1, -1)));
+    } else if (token.startsWith('<')) {
+      pending.push(decodeHex(token.slice(1, -1)));
+    } else if (/^-?[\d.]+$/.test(token)) {
+      // Large negative kerning inside TJ arrays separates words
+      if (Number(token) < -200 && pending.length > 0) pending.push(' ');
+      lastOperand = Number(token);
+    } else if (token === 'Tj' || token === 'TJ') {
+      text += pending.join('');
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      text += `\n${pending.join('')}`;
+      pending = [];
+    } else if (token === 'T*' || token === 'ET') {
+      text += '\n';
+    } else if (token === 'Td' || token === 'TD') {
+      // A vertical move starts a new line, a horizontal one a new word
+      text += lastOperand !== 0 ? '\n' : ' ';
+    } else if (token === 'Tm') {
+      text += ' ';
+    } else if (token !== '[' && token !== ']') {
+      pending = [];
+    }
+  }
+  return text;
+}
+
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const raw = latin1(data);
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('Not a PDF file');
+  }
+
+  const pages: string[] = [];
+  // Font dictionaries may sit in the file body or inside compressed object streams
+  let compositeFonts = COMPOSITE_FONT_PATTERN.test(raw);
+  let unsupportedStreams = 0;
+  const streamPattern = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while (!compositeFonts && (match = streamPattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    // Skip the stream data so binary bytes are never taken for a keyword
+    streamPattern.lastIndex = end + 'endstream'.length;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(Font|Metadata|XRef)/.test(dictionary)) continue;
+    const objectStream = /\/Type\s*\/ObjStm/.test(dictionary);
+
+    const filters = streamFilters(dictionary);
+    if (!filters.every((filter) => SUPPORTED_FILTERS.includes(filter))) {
+      if (!objectStream) unsupportedStreams++;
+      continue;
+    }
+    let bytes: Uint8Array | null;
+    try {
+      bytes = await decodeStream(data.subarray(start, end), filters);
+    } catch {
+      continue;
+    }
+    if (!bytes) continue;
+
+    const content = latin1(bytes);
+    if (objectStream) {
+      if (COMPOSITE_FONT_PATTERN.test(content)) compositeFonts = true;
+      continue;
+    }
+    if (!/\bBT\b/.test(content)) continue;
+    const text = extractStreamText(content)
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/\n\s*\n+/g, '\n')
+      .trim();
+    if (text) pages.push(text);
+  }
+
+  if (compositeFonts) {
+    throw new Error(
+      'Text could not be extracted: the PDF uses composite (CID) fonts, as Print to PDF and Word exports do',
+    );
+  }
+  if (pages.length === 0) {
+    throw new Error(
+      unsupportedStreams > 0
+        ? 'Text could not be extracted: the PDF uses compression this reader does not support'
+        : 'No extractable text found; the PDF may be scanned or use embedded font encodings',
+    );
+  }
+  const text = pages.join('\n\n');
+  return unsupportedStreams > 0
+    ? `${text}\n\n[Some pages use compression this reader does not support and were skipped]`
+    : text;
+}
@@ -0,0 +1,75 @@
+/**
+ * Tool policy storage
+ * Sorts tools into always-allow, ask and deny, with per-origin overrides saved by the user
+ */
+
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+// 'always' approves the call and stores an allow policy for the tool on that origin
+export type ToolApprovalDecision = 'approve' | 'deny' | 'always';
+
+export interface ToolApprovalRequest {
+  id: string;
+  toolName: string;
+  args: any;
+  origin: string;
+}
+
+// origin -> toolName -> policy
+export type SiteToolPolicies = Record<string, Record<string, ToolPolicy>>;
+
+const SITE_POLICIES_STORAGE_KEY = 'tool_site_policies';
+
+/**
+ * Tools that can destroy data, run arbitrary code or act with the user's cookies
+ * need explicit approval. Everything not listed here is always allowed.
+ */
+export const DEFAULT_TOOL_POLICIES: Record<string, ToolPolicy> = {
+  [TOOL_NAMES.BROWSER.INJECT_SCRIPT]: 'ask',
+  [TOOL_NAMES.BROWSER.CLOSE_TABS]: 'ask',
+  [TOOL_NAMES.BROWSER.BOOKMARK_DELETE]: 'ask',
+  [TOOL_NAMES.BROWSER.NETWORK_REQUEST]: 'ask',
+  [TOOL_NAMES.BROWSER.FILL]: 'ask',
+  [TOOL_NAMES.BROWSER.UPLOAD_FILE]: 'ask',
+};
+
+export async function getSiteToolPolicies(): Promise<SiteToolPolicies> {
+  try {
+    const result = await chrome.storage.local.get([SITE_POLICIES_STORAGE_KEY]);
+    return result[SITE_POLICIES_STORAGE_KEY] || {};
+  } catch (error) {
+    console.error('Failed to load tool policies:', error);
+    return {};
+  }
+}
+
+/**
+ * Resolve the effective policy: a saved per-origin override wins over the default
+ */
+export async function getToolPolicy(toolName: string, origin: string): Promise<ToolPolicy> {
+  const sitePolicies = await getSiteToolPolicies();
+  return sitePolicies[origin]?.[toolName] || DEFAULT_TOOL_POLICIES[toolName] || 'allow';
+}
+
+export async function setSiteToolPolicy(
+  origin: string,
+  toolName: string,
+  policy: ToolPolicy,
+): Promise<void> {
+  const sitePolicies = await getSiteToolPolicies();
+  sitePolicies[origin] = { ...sitePolicies[origin], [toolName]: policy };
+  await chrome.storage.local.set({ [SITE_POLICIES_STORAGE_KEY]: sitePolicies });
+}
+
+export async function removeSiteToolPolicy(origin: string, toolName: string): Promise<void> {
+  const sitePolicies = await getSiteToolPolicies();
+  if (!sitePolicies[origin]) return;
+
+  delete sitePolicies[origin][toolName];
+  if (Object.keys(sitePolicies[origin]).length === 0) {
+    delete sitePolicies[origin];
+  }
+  await chrome.storage.local.set({ [SITE_POLICIES_STORAGE_KEY]: sitePolicies });
+}
@@ -0,0 +1,60 @@
+/**
+ * Trusted input settings
+ * Input tools dispatch synthetic DOM events unless a call asks for trusted input or the page's
+ * origin is listed here; sites that ignore synthetic events can be listed once by the user
+ */
+
+// 'auto' dispatches synthetic events; hover, scroll and drag fall back to trusted input when
+// nothing changed, while clicks and typing only report it, since repeating them is not safe
+export type InputMode = 'synthetic' | 'trusted' | 'auto';
+
+const TRUSTED_INPUT_SITES_STORAGE_KEY = 'trusted_input_sites';
+
+export async function getTrustedInputSites(): Promise<string[]> {
+  try {
+    const result = await chrome.storage.local.get([TRUSTED_INPUT_SITES_STORAGE_KEY]);
+    return result[TRUSTED_INPUT_SITES_STORAGE_KEY] || [];
+  } catch (error) {
+    console.error('Failed to load trusted input sites:', error);
+    return [];
+  }
+}
+
+/**
+ * Normalize user input such as "example.com" or a full URL to an origin
+ */
+export function toOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).origin;
+  } catch {
+    return null;
+  }
+}
+
+export async function addTrustedInputSite(origin: string): Promise<void> {
+  const sites = await getTrustedInputSites();
+  if (sites.includes(origin)) return;
+  await chrome.storage.local.set({ [TRUSTED_INPUT_SITES_STORAGE_KEY]: [...sites, origin] });
+}
+
+export async function removeTrustedInputSite(origin: string): Promise<void> {
+  const sites = await getTrustedInputSites();
+  await chrome.storage.local.set({
+    [TRUSTED_INPUT_SITES_STORAGE_KEY]: sites.filter((site) => site !== origin),
+  });
+}
+
+/**
+ * Resolve the input mode of a call: an explicit trusted flag wins over the site setting
+ */
+export async function resolveInputMode(
+  trusted: boolean | undefined,
+  url: string | undefined,
+): Promise<InputMode> {
+  if (trusted !== undefined) return trusted ? 'trusted' : 'synthetic';
+  const origin = url ? toOrigin(url) : null;
+  if (origin && (await getTrustedInputSites()).includes(origin)) return 'trusted';
+  return 'auto';
+}
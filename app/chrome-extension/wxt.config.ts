@@ -42,6 +42,8 @@ export default defineConfig({
       'bookmarks',
       'offscreen',
       'storage',
+      // Conversations keep their image attachments
+      'unlimitedStorage',
       'sidePanel',
       'commands',
     ],
@@ -10,7 +10,11 @@ export const TOOL_NAMES = {
     GO_BACK_OR_FORWARD: 'chrome_go_back_or_forward',
     WEB_FETCHER: 'chrome_get_web_content',
     CLICK: 'chrome_click_element',
+    SCROLL: 'chrome_scroll',
+    HOVER: 'chrome_hover',
+    DRAG_AND_DROP: 'chrome_drag_and_drop',
     FILL: 'chrome_fill_or_select',
+    UPLOAD_FILE: 'chrome_upload_file',
     GET_INTERACTIVE_ELEMENTS: 'chrome_get_interactive_elements',
     NETWORK_CAPTURE_START: 'chrome_network_capture_start',
     NETWORK_CAPTURE_STOP: 'chrome_network_capture_stop',
@@ -25,6 +29,7 @@ export const TOOL_NAMES = {
     INJECT_SCRIPT: 'chrome_inject_script',
     SEND_COMMAND_TO_INJECT_SCRIPT: 'chrome_send_command_to_inject_script',
     CONSOLE: 'chrome_console',
+    WAIT_FOR: 'chrome_wait_for',
   },
   TASK: {
     TODO_CREATE: 'todo_create',
@@ -34,6 +39,29 @@ export const TOOL_NAMES = {
   },
 };
 
+/**
+ * Read-only tools that may run concurrently when the model requests several in one turn.
+ * Tools missing from this set can navigate, click, type or otherwise change tab state,
+ * so they run one at a time in the order they were called.
+ */
+export const PARALLEL_SAFE_TOOLS: ReadonlySet<string> = new Set([
+  TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS,
+  TOOL_NAMES.BROWSER.SEARCH_TABS_CONTENT,
+  TOOL_NAMES.BROWSER.GET_INTERACTIVE_ELEMENTS,
+  TOOL_NAMES.BROWSER.HISTORY,
+  TOOL_NAMES.BROWSER.BOOKMARK_SEARCH,
+  TOOL_NAMES.TASK.TODO_LIST,
+]);
+
+export function isParallelSafeTool(name: string, args?: Record<string, unknown>): boolean {
+  // Fetching by URL or from the active tab opens or activates a tab; only a fetch that
+  // reads a given tab in place leaves the others alone
+  if (name === TOOL_NAMES.BROWSER.WEB_FETCHER) {
+    return typeof args?.tabId === 'number' && args.url === undefined;
+  }
+  return PARALLEL_SAFE_TOOLS.has(name);
+}
+
 export const TOOL_SCHEMAS: Tool[] = [
   {
     name: TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS,
@@ -138,6 +166,11 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'string',
           description: 'URL to fetch content from. If not provided, uses the current active tab',
         },
+        tabId: {
+          type: 'number',
+          description:
+            'ID of an open tab to read without switching to it, as returned by get_windows_and_tabs. Takes precedence over url',
+        },
         htmlContent: {
           type: 'boolean',
           description:
@@ -189,18 +222,214 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'boolean',
           description: 'Wait for page navigation to complete after click (default: false)',
         },
+        waitFor: {
+          type: 'object',
+          description:
+            'Conditions to wait for after the click, as in chrome_wait_for (selector, selectorState, text, urlPattern, networkIdleMs, pageLoad). Uses timeout',
+        },
         timeout: {
           type: 'number',
           description:
             'Timeout in milliseconds for waiting for the element or navigation (default: 5000)',
         },
+        button: {
+          type: 'string',
+          enum: ['left', 'right', 'middle'],
+          description: 'Mouse button; right opens context menus (default: left)',
+        },
+        clickCount: {
+          type: 'number',
+          enum: [1, 2],
+          description: 'Use 2 for a double click (default: 1)',
+        },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: click through the Chrome debugger so the page receives a trusted user event; false: synthetic events only. By default sites listed for trusted input use the debugger; elsewhere the click is synthetic and, if pageChanged is false, can be retried with trusted: true',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.SCROLL,
+    description:
+      'Scroll an element into view, or scroll the page or a scrollable container by an offset or to the top/bottom. Reports whether the position changed and the new scroll height, e.g. to drive infinite scroll',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: 'CSS selector of an element to scroll into view',
+        },
+        container: {
+          type: 'string',
+          description:
+            'CSS selector of a scrollable element to scroll instead of the page (used with deltaX/deltaY or position)',
+        },
+        deltaX: {
+          type: 'number',
+          description: 'Pixels to scroll horizontally (negative scrolls left)',
+        },
+        deltaY: {
+          type: 'number',
+          description: 'Pixels to scroll vertically (negative scrolls up)',
+        },
+        position: {
+          type: 'string',
+          enum: ['top', 'bottom'],
+          description: 'Scroll to the top or bottom instead of by an offset',
+        },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: scroll with a real mouse wheel event through the Chrome debugger; false: never. By default used for sites listed for trusted input, or when a synthetic scroll does not move the page',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.HOVER,
+    description:
+      'Move the mouse over an element or point, e.g. to open hover menus or tooltips. Take a screenshot or read the page afterwards to see what appeared',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: 'CSS selector for the element to hover. Either selector or coordinates',
+        },
+        coordinates: {
+          type: 'object',
+          description:
+            'Coordinates to hover at (relative to viewport). Takes precedence over selector',
+          properties: {
+            x: {
+              type: 'number',
+              description: 'X coordinate relative to the viewport',
+            },
+            y: {
+              type: 'number',
+              description: 'Y coordinate relative to the viewport',
+            },
+          },
+          required: ['x', 'y'],
+        },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: move the real pointer through the Chrome debugger (needed for CSS :hover); false: never. By default used for sites listed for trusted input, or when synthetic hover events change nothing',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.DRAG_AND_DROP,
+    description:
+      'Drag an element or point and drop it on another element or point, e.g. to reorder sortable lists or move cards between columns',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        fromSelector: {
+          type: 'string',
+          description: 'CSS selector of the element to drag',
+        },
+        fromCoordinates: {
+          type: 'object',
+          description:
+            'Point to start dragging from (relative to viewport), instead of fromSelector',
+          properties: {
+            x: {
+              type: 'number',
+              description: 'X coordinate relative to the viewport',
+            },
+            y: {
+              type: 'number',
+              description: 'Y coordinate relative to the viewport',
+            },
+          },
+          required: ['x', 'y'],
+        },
+        toSelector: {
+          type: 'string',
+          description: 'CSS selector of the element to drop on',
+        },
+        toCoordinates: {
+          type: 'object',
+          description: 'Point to drop at (relative to viewport), instead of toSelector',
+          properties: {
+            x: {
+              type: 'number',
+              description: 'X coordinate relative to the viewport',
+            },
+            y: {
+              type: 'number',
+              description: 'Y coordinate relative to the viewport',
+            },
+          },
+          required: ['x', 'y'],
+        },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: drag with real mouse events through the Chrome debugger; false: never. By default used for sites listed for trusted input, or when the synthetic drag changes nothing',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.WAIT_FOR,
+    description:
+      'Wait until the page reaches a state before continuing: a selector appears or disappears, text is present, the URL matches, the network is idle or the page has loaded. All given conditions must hold at once',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: 'CSS selector of an element to wait for',
+        },
+        selectorState: {
+          type: 'string',
+          enum: ['visible', 'hidden'],
+          description:
+            'Wait for the selector to become visible or to be hidden/removed (default: visible)',
+        },
+        text: {
+          type: 'string',
+          description: 'Text that must be present in the page',
+        },
+        urlPattern: {
+          type: 'string',
+          description:
+            'Pattern the tab URL must match: a substring, a glob with * wildcards, or a /regex/',
+        },
+        networkIdleMs: {
+          type: 'number',
+          description: 'Wait until no network requests have been in flight for this many ms',
+        },
+        pageLoad: {
+          type: 'boolean',
+          description: 'Wait until the tab has finished loading',
+        },
+        tabId: {
+          type: 'number',
+          description: 'Tab to watch (default: the active tab)',
+        },
+        timeout: {
+          type: 'number',
+          description: 'Milliseconds to wait before giving up (default: 10000, max: 120000)',
+        },
       },
       required: [],
     },
   },
   {
     name: TOOL_NAMES.BROWSER.FILL,
-    description: 'Fill a form element or select an option with the specified value',
+    description:
+      'Fill a form element or contenteditable editor, or select an option, with the specified value',
     inputSchema: {
       type: 'object',
       properties: {
@@ -212,10 +441,58 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'string',
           description: 'Value to fill or select into the element',
         },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: type the value through the Chrome debugger as real keyboard input; false: set it with synthetic events. By default used for sites listed for trusted input; elsewhere, if valueKept is false (e.g. React inputs reset it), retry with trusted: true. contenteditable editors are always typed',
+        },
       },
       required: ['selector', 'value'],
     },
   },
+  {
+    name: TOOL_NAMES.BROWSER.UPLOAD_FILE,
+    description:
+      'Choose a file on an <input type="file"> element, e.g. to finish an upload form. Give exactly one file source: base64 content, a screenshot captured earlier, a finished download, or a file attached to the chat',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description:
+            'CSS selector of the <input type="file"> element (it may be hidden behind a styled button)',
+        },
+        base64: {
+          type: 'string',
+          description: 'File content, base64 encoded or as a data: URL',
+        },
+        fileName: {
+          type: 'string',
+          description:
+            'File name for base64 content or a screenshot (default: file, or <screenshotName>.png)',
+        },
+        mimeType: {
+          type: 'string',
+          description:
+            'MIME type for base64 content (default: from the data: URL, else application/octet-stream)',
+        },
+        screenshotName: {
+          type: 'string',
+          description: 'The name given to chrome_screenshot for a recent capture',
+        },
+        downloadId: {
+          type: 'number',
+          description:
+            'ID of a finished download, e.g. the downloadId of a screenshot saved as PNG',
+        },
+        attachmentName: {
+          type: 'string',
+          description: 'File name of an image, PDF or text file the user attached to this chat',
+        },
+      },
+      required: ['selector'],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.GET_INTERACTIVE_ELEMENTS,
     description: 'Get interactive elements from the current page',
@@ -340,6 +617,11 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'number',
           description: 'Delay between key sequences in milliseconds (optional, default: 0)',
         },
+        trusted: {
+          type: 'boolean',
+          description:
+            'true: send the keys through the Chrome debugger so they type text and trigger default actions; false: synthetic events only. By default used for sites listed for trusted input; elsewhere the keys are synthetic and, if pageChanged is false, can be retried with trusted: true',
+        },
       },
       required: ['keys'],
     },
@@ -613,6 +895,12 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'string',
           description: 'Additional notes for the task (optional)',
         },
+        depends_on: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Replace the IDs of tasks this task depends on (optional). A task cannot start or complete until its dependencies are completed',
+        },
       },
       required: ['id'],
     },